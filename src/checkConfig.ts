@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import { ConfigError, configPath, loadConfigFromFile } from './common/config.js';
+
+interface WikiCheck {
+	ok: boolean;
+	message: string;
+}
+
+/**
+ * Errors already reported as a failed check.
+ */
+const reportedErrors = new WeakSet<object>();
+
+/**
+ * Check that a wiki answers API requests and, when credentials are
+ * configured, that they log in.
+ *
+ * @param {string} wikiKey Key of the wiki in the configuration
+ * @return {Promise<WikiCheck>}
+ */
+async function checkWiki( wikiKey: string ): Promise<WikiCheck> {
+	const { wikiService } = await import( './common/wikiService.js' );
+	const { runWithWiki } = await import( './common/session.js' );
+	const { getMwn } = await import( './common/mwn.js' );
+
+	const wiki = wikiService.get( wikiKey );
+	const hasCredentials = Boolean( wiki?.token || ( wiki?.username && wiki.password ) );
+	try {
+		const userInfo = await runWithWiki( wikiKey, async () => {
+			const mwn = await getMwn();
+			return await mwn.userinfo() as { name: string; anon?: boolean };
+		} );
+
+		if ( hasCredentials && userInfo.anon ) {
+			return { ok: false, message: 'reachable, but the credentials did not log in' };
+		}
+		if ( !hasCredentials && wiki?.private ) {
+			return { ok: false, message: 'reachable, but the wiki is private and no credentials are configured' };
+		}
+		return {
+			ok: true,
+			message: hasCredentials ? `reachable, logged in as ${ userInfo.name }` : 'reachable, not logged in'
+		};
+	} catch ( error ) {
+		if ( typeof error === 'object' && error !== null ) {
+			reportedErrors.add( error );
+		}
+		return {
+			ok: false,
+			message: `${ hasCredentials ? 'could not connect or log in' : 'could not connect' }: ${ ( error as Error ).message }`
+		};
+	}
+}
+
+/**
+ * Validate the config file, then try every wiki in it, printing a report.
+ * Returns whether everything passed.
+ *
+ * @return {Promise<boolean>}
+ */
+export async function checkConfig(): Promise<boolean> {
+	console.log( `Checking ${ configPath }` );
+	if ( !fs.existsSync( configPath ) ) {
+		console.log( 'No config file found, checking the built-in default config' );
+	}
+
+	try {
+		loadConfigFromFile();
+	} catch ( error ) {
+		if ( error instanceof ConfigError ) {
+			console.log( `✗ ${ error.message }` );
+			return false;
+		}
+		throw error;
+	}
+
+	// The config loads, so the modules using it can be imported now
+	const { checkProfiles } = await import( './common/profiles.js' );
+	try {
+		checkProfiles();
+	} catch ( error ) {
+		console.log( `✗ ${ ( error as Error ).message }` );
+		return false;
+	}
+	console.log( '✓ Config is valid' );
+
+	// mwn leaves a copy of a failed login's rejection unhandled, which would
+	// end the process. The failure is reported for the wiki all the same.
+	process.on( 'unhandledRejection', ( reason ) => {
+		if ( typeof reason !== 'object' || reason === null || !reportedErrors.has( reason ) ) {
+			throw reason;
+		}
+	} );
+
+	const { wikiService } = await import( './common/wikiService.js' );
+	let ok = true;
+	for ( const [ wikiKey, wiki ] of Object.entries( wikiService.getAll() ) ) {
+		const result = await checkWiki( wikiKey );
+		ok = ok && result.ok;
+		console.log( `${ result.ok ? '✓' : '✗' } ${ wikiKey } (${ wiki.server }${ wiki.scriptpath }/api.php): ${ result.message }` );
+	}
+	return ok;
+}
@@ -0,0 +1,48 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingHttpHeaders } from 'node:http';
+import { wikiService } from './wikiService.js';
+import type { DeepReadonly } from './wikiService.js';
+import type { ApiKeyConfig } from './config.js';
+
+/**
+ * Read the key a client presents, from an "Authorization: Bearer" or "X-API-Key" header.
+ *
+ * @param {IncomingHttpHeaders} headers Request headers
+ * @return {string|undefined}
+ */
+export function getPresentedKey( headers: IncomingHttpHeaders ): string | undefined {
+	const bearer = headers.authorization?.match( /^Bearer\s+(\S+)\s*$/i );
+	if ( bearer ) {
+		return bearer[ 1 ];
+	}
+	const apiKey = headers[ 'x-api-key' ];
+	return typeof apiKey === 'string' && apiKey !== '' ? apiKey : undefined;
+}
+
+function keysMatch( presented: string, expected: string ): boolean {
+	// Compare digests so the comparison takes the same time whatever the lengths
+	const a = createHash( 'sha256' ).update( presented ).digest();
+	const b = createHash( 'sha256' ).update( expected ).digest();
+	return timingSafeEqual( a, b );
+}
+
+/**
+ * Find the configured API key matching the one a client presented.
+ *
+ * @param {string} presented Key presented by the client
+ * @return {ApiKeyConfig|undefined}
+ */
+export function findApiKey( presented: string ): DeepReadonly<ApiKeyConfig> | undefined {
+	let found: DeepReadonly<ApiKeyConfig> | undefined;
+	// Check every key, so timing doesn't reveal which one matched
+	for ( const apiKey of wikiService.getApiKeys() ) {
+		if ( keysMatch( presented, apiKey.key ) && !found ) {
+			found = apiKey;
+		}
+	}
+	return found;
+}
+
+export function isAuthRequired(): boolean {
+	return wikiService.getApiKeys().length > 0;
+}
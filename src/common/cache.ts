@@ -0,0 +1,254 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { wikiService } from './wikiService.js';
+import { configPath } from './config.js';
+
+export interface CacheEntry {
+	/**
+	 * Response body, as received.
+	 */
+	body: string;
+	etag?: string;
+	/**
+	 * When the response was received or last revalidated, in milliseconds.
+	 */
+	storedAt: number;
+}
+
+/**
+ * How a cached response may be used.
+ * - immutable: revisions never change, so they are used as long as they're kept
+ * - revalidate: the current version of a page is checked with the wiki on
+ *   every read, with If-None-Match, and is only sent again when it changed
+ * - expire: anything else is used for the configured TTL
+ */
+export type CachePolicy = 'immutable' | 'revalidate' | 'expire';
+
+export const DEFAULT_MAX_ENTRIES = 1000;
+
+export const DEFAULT_TTL = 60;
+
+/**
+ * Cache policy of a REST API path.
+ *
+ * @param {string} restPath REST API path, without the query
+ * @return {CachePolicy}
+ */
+export function getCachePolicy( restPath: string ): CachePolicy {
+	if ( /^\/v1\/revision\/\d+(\/(bare|with_html|html))?$/.test( restPath ) ) {
+		return 'immutable';
+	}
+	if ( /^\/v1\/page\/[^/]+(\/(bare|with_html|html))?$/.test( restPath ) ) {
+		return 'revalidate';
+	}
+	return 'expire';
+}
+
+/**
+ * Key of a response: the wiki and the REST path with its query.
+ *
+ * @param {string} wikiKey Key of the wiki in the configuration
+ * @param {string} restPath REST API path
+ * @param {Object} [params] Query parameters
+ * @return {string}
+ */
+export function getCacheKey(
+	wikiKey: string, restPath: string, params?: Record<string, string>
+): string {
+	const query = new URLSearchParams( params ).toString();
+	return `${ wikiKey } ${ restPath }${ query ? `?${ query }` : '' }`;
+}
+
+/**
+ * Responses kept as JSON files, one per key, so they outlast restarts.
+ * The directory can be emptied at any time.
+ */
+class DiskStore {
+	public readonly directory: string;
+
+	public constructor( directory: string ) {
+		this.directory = directory;
+	}
+
+	private getFile( key: string ): string {
+		return path.join( this.directory, `${ createHash( 'sha256' ).update( key ).digest( 'hex' ) }.json` );
+	}
+
+	public async get( key: string ): Promise<CacheEntry | undefined> {
+		try {
+			const stored = JSON.parse( await fs.readFile( this.getFile( key ), 'utf8' ) ) as CacheEntry & { key: string };
+			// A hash collision is unlikely, but not worth serving the wrong page for
+			if ( stored.key !== key ) {
+				return undefined;
+			}
+			return { body: stored.body, etag: stored.etag, storedAt: stored.storedAt };
+		} catch {
+			return undefined;
+		}
+	}
+
+	public async set( key: string, entry: CacheEntry ): Promise<void> {
+		try {
+			await fs.mkdir( this.directory, { recursive: true } );
+			const file = this.getFile( key );
+			await fs.writeFile( `${ file }.${ process.pid }.tmp`, JSON.stringify( { key, ...entry } ) );
+			await fs.rename( `${ file }.${ process.pid }.tmp`, file );
+		} catch ( error ) {
+			console.error( `[cache] Could not write to ${ this.directory }: ${ ( error as Error ).message }` );
+		}
+	}
+
+	public async delete( key: string ): Promise<void> {
+		await fs.rm( this.getFile( key ), { force: true } );
+	}
+}
+
+/**
+ * Cache of REST API responses, by wiki and path, in memory and optionally
+ * on disk. Settings are read from the config on each use, so a reloaded
+ * config applies right away.
+ */
+class ResponseCache {
+	/**
+	 * In least recently used order: a Map iterates in insertion order, and
+	 * entries are reinserted when used.
+	 */
+	private readonly entries = new Map<string, CacheEntry>();
+
+	/**
+	 * Page sources by wiki and revision ID, from page lookups, so a revision
+	 * that was just read as the current version of a page isn't fetched again.
+	 */
+	private readonly revisionSources = new Map<string, string>();
+
+	private disk: DiskStore | undefined;
+
+	public isEnabled(): boolean {
+		return wikiService.getCacheConfig().enabled !== false;
+	}
+
+	private getDisk(): DiskStore | undefined {
+		const { directory } = wikiService.getCacheConfig();
+		if ( directory === undefined ) {
+			return undefined;
+		}
+		const resolved = path.resolve( path.dirname( configPath ), directory );
+		if ( this.disk?.directory !== resolved ) {
+			this.disk = new DiskStore( resolved );
+		}
+		return this.disk;
+	}
+
+	private getMaxEntries(): number {
+		return wikiService.getCacheConfig().maxEntries ?? DEFAULT_MAX_ENTRIES;
+	}
+
+	public async get( key: string ): Promise<CacheEntry | undefined> {
+		if ( !this.isEnabled() ) {
+			return undefined;
+		}
+		let entry = this.entries.get( key );
+		if ( entry ) {
+			this.entries.delete( key );
+		} else {
+			entry = await this.getDisk()?.get( key );
+		}
+		if ( entry ) {
+			this.remember( this.entries, key, entry );
+		}
+		return entry;
+	}
+
+	/**
+	 * Whether an entry can be used without asking the wiki.
+	 *
+	 * @param {CacheEntry} entry Cached response
+	 * @param {CachePolicy} policy Cache policy of the path
+	 * @return {boolean}
+	 */
+	public isFresh( entry: CacheEntry, policy: CachePolicy ): boolean {
+		if ( policy === 'immutable' ) {
+			return true;
+		}
+		if ( policy === 'revalidate' ) {
+			return false;
+		}
+		const ttl = wikiService.getCacheConfig().ttl ?? DEFAULT_TTL;
+		return Date.now() - entry.storedAt < ttl * 1000;
+	}
+
+	public async set( key: string, entry: CacheEntry ): Promise<void> {
+		if ( !this.isEnabled() ) {
+			return;
+		}
+		this.remember( this.entries, key, entry );
+		this.rememberRevisionSource( key, entry.body );
+		await this.getDisk()?.set( key, entry );
+	}
+
+	/**
+	 * Mark an entry as just confirmed current by the wiki.
+	 *
+	 * @param {string} key Cache key
+	 * @param {CacheEntry} entry Cached response
+	 */
+	public async revalidated( key: string, entry: CacheEntry ): Promise<void> {
+		await this.set( key, { ...entry, storedAt: Date.now() } );
+	}
+
+	/**
+	 * Forget the responses about a page, such as its history, after it was
+	 * changed. Files on disk are named by hash, so only the page lookups and
+	 * the latest history are removed there; the rest expire.
+	 *
+	 * @param {string} wikiKey Key of the wiki in the configuration
+	 * @param {string} title Page title
+	 */
+	public async invalidatePage( wikiKey: string, title: string ): Promise<void> {
+		const prefix = `${ wikiKey } /v1/page/${ encodeURIComponent( title ) }`;
+		for ( const key of [ ...this.entries.keys() ] ) {
+			if ( key === prefix || key.startsWith( `${ prefix }/` ) || key.startsWith( `${ prefix }?` ) ) {
+				this.entries.delete( key );
+			}
+		}
+		for ( const subEndpoint of [ '', '/bare', '/with_html', '/html', '/history' ] ) {
+			await this.getDisk()?.delete( `${ prefix }${ subEndpoint }` );
+		}
+	}
+
+	public getRevisionSource( wikiKey: string, revisionId: number ): string | undefined {
+		return this.isEnabled() ? this.revisionSources.get( `${ wikiKey } ${ revisionId }` ) : undefined;
+	}
+
+	private rememberRevisionSource( key: string, body: string ): void {
+		const [ wikiKey, restPath ] = key.split( ' ', 2 );
+		if ( !/^\/v1\/(page|revision)\/[^/?]+$/.test( restPath ) ) {
+			return;
+		}
+		let data: { id?: number; source?: string; latest?: { id?: number } };
+		try {
+			data = JSON.parse( body );
+		} catch {
+			return;
+		}
+		const revisionId = restPath.startsWith( '/v1/page/' ) ? data.latest?.id : data.id;
+		if ( typeof revisionId === 'number' && typeof data.source === 'string' ) {
+			this.remember( this.revisionSources, `${ wikiKey } ${ revisionId }`, data.source );
+		}
+	}
+
+	private remember<T>( map: Map<string, T>, key: string, value: T ): void {
+		map.delete( key );
+		map.set( key, value );
+		const maxEntries = this.getMaxEntries();
+		for ( const oldest of map.keys() ) {
+			if ( map.size <= maxEntries ) {
+				break;
+			}
+			map.delete( oldest );
+		}
+	}
+}
+
+export const responseCache = new ResponseCache();
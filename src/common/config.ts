@@ -1,4 +1,111 @@
 import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { configSchema } from './configSchema.js';
+
+export interface VerificationConfig {
+	/**
+	 * Whether edits are marked for human verification at all.
+	 */
+	enabled?: boolean;
+	/**
+	 * Namespaces whose pages are never marked (e.g. Template, User).
+	 */
+	exemptNamespaces?: string[];
+	/**
+	 * Per-namespace on/off switch, keyed by namespace name ("Main" for the main namespace).
+	 * Takes precedence over exemptNamespaces.
+	 */
+	namespaces?: { [namespace: string]: boolean };
+	/**
+	 * Templates that support a status parameter. Content starting with one
+	 * of these gets status=proposed instead of a wrapper.
+	 */
+	templatesWithStatus?: string[];
+	/**
+	 * Template used to wrap proposed prose.
+	 */
+	wrapperTemplate?: string;
+	/**
+	 * Value of the by= parameter on the wrapper template.
+	 */
+	proposer?: string;
+	/**
+	 * How similar (0 to 1, by shared words) an edited paragraph must be to a
+	 * paragraph of the previous revision to count as an edit of it. Edits only
+	 * get their changed sentences wrapped; anything less similar counts as
+	 * rewritten and is wrapped as a whole.
+	 */
+	similarityThreshold?: number;
+}
+
+export interface MiddlewareConfig {
+	/**
+	 * Name of a built-in middleware, or of an external one loaded from path.
+	 */
+	name: string;
+	/**
+	 * Path to an ES module whose default export is the middleware, or a
+	 * function creating it from options. Relative to the config file.
+	 */
+	path?: string;
+	/**
+	 * Options passed to the middleware when it is created.
+	 */
+	options?: Record<string, unknown>;
+}
+
+/**
+ * How requests to a wiki are retried and limited.
+ */
+export interface RequestsConfig {
+	/**
+	 * Retries of a request the wiki did not process: rate limited, lagged,
+	 * or, for reads, lost in transit.
+	 */
+	maxRetries?: number;
+	/**
+	 * Delay before the first retry, in milliseconds. Doubles with each retry.
+	 */
+	retryDelay?: number;
+	/**
+	 * Longest delay before a retry, in milliseconds. A request whose
+	 * Retry-After asks for longer fails instead.
+	 */
+	maxRetryDelay?: number;
+	/**
+	 * maxlag sent with Action API requests, in seconds.
+	 */
+	maxlag?: number;
+	/**
+	 * Requests to the wiki in flight at once, across all sessions.
+	 */
+	maxConcurrent?: number;
+}
+
+/**
+ * Cache of responses to REST API reads, shared by all sessions.
+ */
+export interface CacheConfig {
+	/**
+	 * Defaults to true.
+	 */
+	enabled?: boolean;
+	/**
+	 * Responses kept in memory; the least recently used are dropped first.
+	 */
+	maxEntries?: number;
+	/**
+	 * Seconds a response other than a page or revision is used without
+	 * asking the wiki again.
+	 */
+	ttl?: number;
+	/**
+	 * Directory to also keep responses in, relative to the config file,
+	 * so they outlast restarts.
+	 */
+	directory?: string;
+}
 
 export interface WikiConfig {
 	/**
@@ -19,6 +126,7 @@ export interface WikiConfig {
 	scriptpath: string;
 	/**
 	 * OAuth consumer token requested from Extension:OAuth.
+	 * Like username and password, it can be given as a secret reference in the config file.
 	 */
 	token?: string | null;
 	/**
@@ -34,6 +142,62 @@ export interface WikiConfig {
 	 * $wgGroupPermissions['*']['read'] = false; in MediaWiki
 	 */
 	private?: boolean;
+	/**
+	 * Verification policy applied to edits on this wiki.
+	 * Defaults to PickiPedia's rules when omitted.
+	 */
+	verification?: VerificationConfig;
+	/**
+	 * Middleware run on edits to this wiki, in order.
+	 * Overrides the top-level middleware list.
+	 */
+	middleware?: MiddlewareConfig[];
+	/**
+	 * Permission profile limiting the tools that can be called against this wiki.
+	 */
+	profile?: string;
+	/**
+	 * Retry and concurrency settings for requests to this wiki.
+	 * Overrides the top-level settings field by field.
+	 */
+	requests?: RequestsConfig;
+}
+
+export interface ProfileConfig {
+	/**
+	 * Profile whose tools this one also allows.
+	 */
+	extends?: string;
+	/**
+	 * Tools the profile allows.
+	 */
+	tools?: string[];
+}
+
+export type TransportType = 'stdio' | 'http';
+
+export interface ApiKeyConfig {
+	/**
+	 * Who the key belongs to. Shown in logs and added to edit summaries.
+	 */
+	name: string;
+	/**
+	 * The secret clients send as a bearer token or X-API-Key header.
+	 * Can be given as a secret reference in the config file.
+	 */
+	key: string;
+	/**
+	 * Wikis the key may use. All wikis when omitted.
+	 */
+	wikis?: string[];
+	/**
+	 * Tools the key may see and call. All tools when omitted.
+	 */
+	tools?: string[];
+	/**
+	 * Permission profile of the key. Takes the place of the http transport's profile.
+	 */
+	profile?: string;
 }
 
 export type PublicWikiConfig = Omit<WikiConfig, 'token' | 'username' | 'password'>;
@@ -41,6 +205,34 @@ export type PublicWikiConfig = Omit<WikiConfig, 'token' | 'username' | 'password
 export interface Config {
 	wikis: { [key: string]: WikiConfig };
 	defaultWiki: string;
+	/**
+	 * Middleware run on edits to wikis that don't declare their own.
+	 */
+	middleware?: MiddlewareConfig[];
+	/**
+	 * Keys accepted by the StreamableHTTP transport. When set, every
+	 * request must present one of them.
+	 */
+	apiKeys?: ApiKeyConfig[];
+	/**
+	 * Custom permission profiles, by name, alongside the built-in ones.
+	 */
+	profiles?: { [name: string]: ProfileConfig };
+	/**
+	 * Permission profile of every session, or of the sessions of each
+	 * transport. All tools are available when omitted.
+	 */
+	profile?: string | { [transport in TransportType]?: string };
+	/**
+	 * Write wikis added or removed at runtime back to the config file,
+	 * and reload the file when it is edited.
+	 */
+	persist?: boolean;
+	/**
+	 * Retry and concurrency settings for wikis that don't override them.
+	 */
+	requests?: RequestsConfig;
+	cache?: CacheConfig;
 }
 
 export const defaultConfig: Config = {
@@ -64,12 +256,119 @@ export const defaultConfig: Config = {
 		}
 	}
 };
-const configPath = process.env.CONFIG || 'config.json';
+export const configPath = process.env.CONFIG || 'config.json';
+
+export class ConfigError extends Error {
+	public constructor( message: string ) {
+		super( message );
+		this.name = 'ConfigError';
+	}
+}
+
+/**
+ * A secret kept out of the config file: read from an environment variable,
+ * or from a file such as a Docker secret. Paths are relative to the config file.
+ */
+type SecretReference = { env: string } | { file: string };
+
+function isSecretReference( value: unknown ): value is SecretReference {
+	return typeof value === 'object' && value !== null && !Array.isArray( value );
+}
+
+function resolveSecret( value: unknown, field: string ): string {
+	if ( !isSecretReference( value ) ) {
+		return value as string;
+	}
+
+	if ( 'env' in value && typeof value.env === 'string' ) {
+		const secret = process.env[ value.env ];
+		if ( secret === undefined || secret === '' ) {
+			throw new ConfigError( `${ field }: environment variable ${ value.env } is not set` );
+		}
+		return secret;
+	}
+
+	if ( 'file' in value && typeof value.file === 'string' ) {
+		const secretPath = path.resolve( path.dirname( configPath ), value.file );
+		try {
+			// Secret files usually end with a newline that isn't part of the secret
+			return fs.readFileSync( secretPath, 'utf-8' ).replace( /\r?\n$/, '' );
+		} catch ( error ) {
+			throw new ConfigError( `${ field }: could not read secret file ${ secretPath }: ${ ( error as Error ).message }` );
+		}
+	}
+
+	throw new ConfigError( `${ field }: expected a string, {"env": "NAME"} or {"file": "path"}, got ${ JSON.stringify( value ) }` );
+}
+
+/**
+ * Replace the secret references in a config with the secrets they point to.
+ *
+ * @param {Config} config Config with secret references
+ * @return {Config}
+ */
+function resolveSecrets( config: Config ): Config {
+	for ( const [ key, wiki ] of Object.entries( config.wikis ?? {} ) ) {
+		for ( const field of [ 'token', 'username', 'password' ] as const ) {
+			if ( wiki[ field ] !== undefined && wiki[ field ] !== null ) {
+				wiki[ field ] = resolveSecret( wiki[ field ], `wikis.${ key }.${ field }` );
+			}
+		}
+	}
+	config.apiKeys?.forEach( ( apiKey, i ) => {
+		apiKey.key = resolveSecret( apiKey.key, `apiKeys[${ i }].key` );
+	} );
+	return config;
+}
 
 export function loadConfigFromFile(): Config {
 	if ( !fs.existsSync( configPath ) ) {
 		return defaultConfig;
 	}
-	const rawData = fs.readFileSync( configPath, 'utf-8' );
-	return JSON.parse( rawData ) as Config;
+	return parseConfig( readConfigFile() );
+}
+
+export function readConfigFile(): string {
+	return fs.readFileSync( configPath, 'utf-8' );
+}
+
+/**
+ * Parse and validate the content of a config file, resolving secret references.
+ *
+ * @param {string} content Content of the config file
+ * @return {Config}
+ */
+export function parseConfig( content: string ): Config {
+	let data: unknown;
+	try {
+		data = JSON.parse( content );
+	} catch ( error ) {
+		throw new ConfigError( `${ configPath } is not valid JSON: ${ ( error as Error ).message }` );
+	}
+
+	const result = configSchema.safeParse( data );
+	if ( !result.success ) {
+		throw new ConfigError( `${ configPath } is invalid:\n${ z.prettifyError( result.error ) }` );
+	}
+	return resolveSecrets( result.data as Config );
+}
+
+/**
+ * Replace the config file with new content. The content is written to a
+ * temporary file next to it first and renamed over it, so readers never
+ * see a partly written file.
+ *
+ * @param {string} content New content of the config file
+ */
+export function writeConfigFile( content: string ): void {
+	const tmpPath = `${ configPath }.${ process.pid }.tmp`;
+	// Keep the permissions of the existing file, which may hold credentials
+	const mode = fs.existsSync( configPath ) ? fs.statSync( configPath ).mode : 0o600;
+	try {
+		fs.writeFileSync( tmpPath, content, { encoding: 'utf-8', mode } );
+		fs.renameSync( tmpPath, configPath );
+	} catch ( error ) {
+		fs.rmSync( tmpPath, { force: true } );
+		throw error;
+	}
 }
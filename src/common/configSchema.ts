@@ -0,0 +1,138 @@
+import { z } from 'zod';
+
+const secretSchema = z.string()
+	.or( z.strictObject( { env: z.string().min( 1 ) } ) )
+	.or( z.strictObject( { file: z.string().min( 1 ) } ) );
+
+const verificationSchema = z.strictObject( {
+	enabled: z.boolean().optional(),
+	exemptNamespaces: z.array( z.string() ).optional(),
+	namespaces: z.record( z.string(), z.boolean() ).optional(),
+	templatesWithStatus: z.array( z.string() ).optional(),
+	wrapperTemplate: z.string().min( 1 ).optional(),
+	proposer: z.string().optional(),
+	similarityThreshold: z.number().min( 0 ).max( 1 ).optional()
+} );
+
+const middlewareSchema = z.strictObject( {
+	name: z.string().min( 1 ),
+	path: z.string().min( 1 ).optional(),
+	options: z.record( z.string(), z.unknown() ).optional()
+} );
+
+const requestsSchema = z.strictObject( {
+	maxRetries: z.number().int().min( 0 ).optional(),
+	retryDelay: z.number().int().min( 0 ).optional(),
+	maxRetryDelay: z.number().int().min( 0 ).optional(),
+	maxlag: z.number().int().positive().optional(),
+	maxConcurrent: z.number().int().positive().optional()
+} );
+
+const cacheSchema = z.strictObject( {
+	enabled: z.boolean().optional(),
+	maxEntries: z.number().int().positive().optional(),
+	ttl: z.number().min( 0 ).optional(),
+	directory: z.string().min( 1 ).optional()
+} );
+
+/**
+ * Whether a server is an http(s) URL, or a protocol-relative one such as
+ * "//en.wikipedia.org", as MediaWiki's siteinfo reports for Wikimedia wikis.
+ * Protocol-relative servers are requested over HTTPS.
+ *
+ * @param {string} server Value of the server setting
+ * @return {boolean}
+ */
+function isServerUrl( server: string ): boolean {
+	try {
+		const url = new URL( server.startsWith( '//' ) ? `https:${ server }` : server );
+		return url.protocol === 'https:' || url.protocol === 'http:';
+	} catch {
+		return false;
+	}
+}
+
+const wikiSchema = z.strictObject( {
+	sitename: z.string().min( 1 ),
+	server: z.string().refine(
+		isServerUrl,
+		'must be an http(s) URL or start with //, e.g. https://en.wikipedia.org'
+	).refine(
+		( server ) => !server.endsWith( '/' ),
+		'must not end with a slash, e.g. https://en.wikipedia.org'
+	),
+	articlepath: z.string(),
+	scriptpath: z.string(),
+	token: secretSchema.nullable().optional(),
+	username: secretSchema.nullable().optional(),
+	password: secretSchema.nullable().optional(),
+	private: z.boolean().optional(),
+	verification: verificationSchema.optional(),
+	middleware: z.array( middlewareSchema ).optional(),
+	profile: z.string().min( 1 ).optional(),
+	requests: requestsSchema.optional()
+} );
+
+const apiKeySchema = z.strictObject( {
+	name: z.string().min( 1 ),
+	key: secretSchema,
+	wikis: z.array( z.string() ).min( 1 ).optional(),
+	tools: z.array( z.string() ).optional(),
+	profile: z.string().min( 1 ).optional()
+} );
+
+const profileSchema = z.strictObject( {
+	extends: z.string().min( 1 ).optional(),
+	tools: z.array( z.string() ).optional()
+} );
+
+/**
+ * Schema of the config file, as written: credentials may still be secret
+ * references. Objects are strict, so misspelled fields are reported
+ * instead of being ignored.
+ */
+export const configSchema = z.strictObject( {
+	wikis: z.record( z.string().min( 1 ), wikiSchema ),
+	defaultWiki: z.string(),
+	middleware: z.array( middlewareSchema ).optional(),
+	apiKeys: z.array( apiKeySchema ).optional(),
+	profiles: z.record( z.string().min( 1 ), profileSchema ).optional(),
+	profile: z.string().min( 1 ).or( z.strictObject( {
+		stdio: z.string().min( 1 ).optional(),
+		http: z.string().min( 1 ).optional()
+	} ) ).optional(),
+	persist: z.boolean().optional(),
+	requests: requestsSchema.optional(),
+	cache: cacheSchema.optional()
+} ).superRefine( ( config, ctx ) => {
+	const wikiKeys = Object.keys( config.wikis );
+	if ( !config.wikis[ config.defaultWiki ] ) {
+		ctx.addIssue( {
+			code: 'custom',
+			path: [ 'defaultWiki' ],
+			message: `"${ config.defaultWiki }" is not one of the configured wikis: ${ wikiKeys.join( ', ' ) || 'none' }`
+		} );
+	}
+
+	const names = new Set<string>();
+	config.apiKeys?.forEach( ( apiKey, i ) => {
+		if ( names.has( apiKey.name ) ) {
+			ctx.addIssue( {
+				code: 'custom',
+				path: [ 'apiKeys', i, 'name' ],
+				message: `"${ apiKey.name }" is used by another key; names identify sessions and must be unique`
+			} );
+		}
+		names.add( apiKey.name );
+
+		apiKey.wikis?.forEach( ( wikiKey, j ) => {
+			if ( !config.wikis[ wikiKey ] ) {
+				ctx.addIssue( {
+					code: 'custom',
+					path: [ 'apiKeys', i, 'wikis', j ],
+					message: `"${ wikiKey }" is not one of the configured wikis`
+				} );
+			}
+		} );
+	} );
+} );
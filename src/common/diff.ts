@@ -0,0 +1,432 @@
+/**
+ * Sequence alignment for comparing revisions.
+ *
+ * diffSequences() is an implementation of Myers' O(ND) difference algorithm,
+ * which finds a shortest edit script (equivalently, a longest common
+ * subsequence) between two sequences.
+ */
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+	type: DiffOpType;
+	/**
+	 * Index in the old sequence. For inserts, the position the new item goes before.
+	 */
+	oldIndex: number;
+	/**
+	 * Index in the new sequence. For deletes, the position the old item was removed at.
+	 */
+	newIndex: number;
+}
+
+/**
+ * Above this many edits the full alignment is not worth its cost,
+ * and the differing middle is reported as one replacement.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+function replaceAll(
+	oldLength: number, newLength: number, oldOffset: number, newOffset: number
+): DiffOp[] {
+	const ops: DiffOp[] = [];
+	for ( let i = 0; i < oldLength; i++ ) {
+		ops.push( { type: 'delete', oldIndex: oldOffset + i, newIndex: newOffset } );
+	}
+	for ( let j = 0; j < newLength; j++ ) {
+		ops.push( { type: 'insert', oldIndex: oldOffset + oldLength, newIndex: newOffset + j } );
+	}
+	return ops;
+}
+
+function myers<T>(
+	a: T[], b: T[], equals: ( x: T, y: T ) => boolean, oldOffset: number, newOffset: number
+): DiffOp[] {
+	const n = a.length;
+	const m = b.length;
+	const max = Math.min( n + m, MAX_EDIT_DISTANCE );
+	// v[k + max] holds the furthest x reached on diagonal k
+	const v = new Int32Array( 2 * max + 2 );
+	// trace[d] holds v for diagonals -d..d after step d
+	const trace: Int32Array[] = [];
+
+	let found = false;
+	for ( let d = 0; d <= max && !found; d++ ) {
+		for ( let k = -d; k <= d; k += 2 ) {
+			let x: number;
+			if ( k === -d || ( k !== d && v[ k - 1 + max ] < v[ k + 1 + max ] ) ) {
+				x = v[ k + 1 + max ];
+			} else {
+				x = v[ k - 1 + max ] + 1;
+			}
+			let y = x - k;
+			while ( x < n && y < m && equals( a[ x ], b[ y ] ) ) {
+				x++;
+				y++;
+			}
+			v[ k + max ] = x;
+			if ( x >= n && y >= m ) {
+				found = true;
+			}
+		}
+		trace.push( v.slice( max - d, max + d + 1 ) );
+	}
+
+	if ( !found ) {
+		return replaceAll( n, m, oldOffset, newOffset );
+	}
+
+	const ops: DiffOp[] = [];
+	let x = n;
+	let y = m;
+
+	for ( let d = trace.length - 1; d >= 0; d-- ) {
+		const k = x - y;
+		let startX = 0;
+		let prevX = 0;
+		let prevY = 0;
+
+		if ( d > 0 ) {
+			const previous = trace[ d - 1 ];
+			const at = ( diagonal: number ): number => previous[ diagonal + d - 1 ];
+			const down = k === -d || ( k !== d && at( k - 1 ) < at( k + 1 ) );
+			const prevK = down ? k + 1 : k - 1;
+			prevX = at( prevK );
+			prevY = prevX - prevK;
+			startX = down ? prevX : prevX + 1;
+		}
+
+		while ( x > startX ) {
+			x--;
+			y--;
+			ops.push( { type: 'equal', oldIndex: oldOffset + x, newIndex: newOffset + y } );
+		}
+
+		if ( d > 0 ) {
+			if ( x === prevX ) {
+				ops.push( { type: 'insert', oldIndex: oldOffset + prevX, newIndex: newOffset + prevY } );
+			} else {
+				ops.push( { type: 'delete', oldIndex: oldOffset + prevX, newIndex: newOffset + prevY } );
+			}
+			x = prevX;
+			y = prevY;
+		}
+	}
+
+	return ops.reverse();
+}
+
+/**
+ * Align two sequences, returning the edit script that turns `a` into `b`.
+ *
+ * @param {Array} a Old sequence
+ * @param {Array} b New sequence
+ * @param {Function} [equals] Whether two elements are equal
+ * @return {DiffOp[]}
+ */
+export function diffSequences<T>(
+	a: T[], b: T[], equals: ( x: T, y: T ) => boolean = ( x, y ) => x === y
+): DiffOp[] {
+	// Common prefix and suffix are cheap to strip and usually most of a page
+	let prefix = 0;
+	while ( prefix < a.length && prefix < b.length && equals( a[ prefix ], b[ prefix ] ) ) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix && suffix < b.length - prefix &&
+		equals( a[ a.length - 1 - suffix ], b[ b.length - 1 - suffix ] )
+	) {
+		suffix++;
+	}
+
+	const ops: DiffOp[] = [];
+	for ( let i = 0; i < prefix; i++ ) {
+		ops.push( { type: 'equal', oldIndex: i, newIndex: i } );
+	}
+	ops.push( ...myers(
+		a.slice( prefix, a.length - suffix ),
+		b.slice( prefix, b.length - suffix ),
+		equals,
+		prefix,
+		prefix
+	) );
+	for ( let i = suffix; i > 0; i-- ) {
+		ops.push( { type: 'equal', oldIndex: a.length - i, newIndex: b.length - i } );
+	}
+	return ops;
+}
+
+/**
+ * Split text into word and punctuation tokens, dropping whitespace.
+ *
+ * @param {string} text Text to split
+ * @return {string[]}
+ */
+export function tokenizeWords( text: string ): string[] {
+	return text.match( /[\p{L}\p{N}_']+|[^\s\p{L}\p{N}_']/gu ) ?? [];
+}
+
+/**
+ * Similarity of two token sequences, from 0 (nothing in common) to 1 (identical).
+ * Computed as 2 * |LCS| / (|a| + |b|).
+ *
+ * @param {Array} a First sequence
+ * @param {Array} b Second sequence
+ * @return {number}
+ */
+export function similarity<T>( a: T[], b: T[] ): number {
+	if ( a.length === 0 && b.length === 0 ) {
+		return 1;
+	}
+	const common = diffSequences( a, b ).filter( ( op ) => op.type === 'equal' ).length;
+	return ( 2 * common ) / ( a.length + b.length );
+}
+
+/**
+ * Render a line-based unified diff of two texts, with `context` unchanged
+ * lines around each change. Returns an empty string if the texts are equal.
+ *
+ * @param {string} oldText Old text
+ * @param {string} newText New text
+ * @param {string} oldLabel Label of the old text, on the --- line
+ * @param {string} newLabel Label of the new text, on the +++ line
+ * @param {number} [context] Unchanged lines shown around each change
+ * @return {string}
+ */
+export function unifiedDiff(
+	oldText: string, newText: string, oldLabel: string, newLabel: string, context: number = 3
+): string {
+	const a = oldText.split( '\n' );
+	const b = newText.split( '\n' );
+	const ops = diffSequences( a, b );
+
+	// Spans of ops to show, merging changes whose context overlaps
+	const hunks: [ start: number, end: number ][] = [];
+	ops.forEach( ( op, index ) => {
+		if ( op.type === 'equal' ) {
+			return;
+		}
+		const start = Math.max( 0, index - context );
+		const end = Math.min( ops.length, index + context + 1 );
+		const last = hunks[ hunks.length - 1 ];
+		if ( last && start <= last[ 1 ] ) {
+			last[ 1 ] = end;
+		} else {
+			hunks.push( [ start, end ] );
+		}
+	} );
+
+	if ( hunks.length === 0 ) {
+		return '';
+	}
+
+	const lines = [ `--- ${ oldLabel }`, `+++ ${ newLabel }` ];
+	for ( const [ start, end ] of hunks ) {
+		const hunk = ops.slice( start, end );
+		const oldCount = hunk.filter( ( op ) => op.type !== 'insert' ).length;
+		const newCount = hunk.filter( ( op ) => op.type !== 'delete' ).length;
+		// An empty side is numbered by the line before it, as diff -u does
+		const oldStart = hunk[ 0 ].oldIndex + ( oldCount > 0 ? 1 : 0 );
+		const newStart = hunk[ 0 ].newIndex + ( newCount > 0 ? 1 : 0 );
+
+		lines.push( `@@ -${ oldStart },${ oldCount } +${ newStart },${ newCount } @@` );
+		for ( const op of hunk ) {
+			if ( op.type === 'equal' ) {
+				lines.push( ` ${ a[ op.oldIndex ] }` );
+			} else if ( op.type === 'delete' ) {
+				lines.push( `-${ a[ op.oldIndex ] }` );
+			} else {
+				lines.push( `+${ b[ op.newIndex ] }` );
+			}
+		}
+	}
+	return lines.join( '\n' );
+}
+
+/**
+ * A change one side made to a range of the base: base[start, end)
+ * is replaced by tokens.
+ */
+interface ChangeHunk<T> {
+	start: number;
+	end: number;
+	tokens: T[];
+}
+
+function getChangeHunks<T>(
+	base: T[], other: T[], equals: ( x: T, y: T ) => boolean
+): ChangeHunk<T>[] {
+	const hunks: ChangeHunk<T>[] = [];
+	let current: ChangeHunk<T> | undefined;
+	for ( const op of diffSequences( base, other, equals ) ) {
+		if ( op.type === 'equal' ) {
+			current = undefined;
+			continue;
+		}
+		if ( !current ) {
+			current = { start: op.oldIndex, end: op.oldIndex, tokens: [] };
+			hunks.push( current );
+		}
+		if ( op.type === 'delete' ) {
+			current.end = op.oldIndex + 1;
+		} else {
+			current.tokens.push( other[ op.newIndex ] );
+		}
+	}
+	return hunks;
+}
+
+function applyChangeHunks<T>( base: T[], start: number, end: number, hunks: ChangeHunk<T>[] ): T[] {
+	const result: T[] = [];
+	let position = start;
+	for ( const hunk of hunks ) {
+		result.push( ...base.slice( position, hunk.start ), ...hunk.tokens );
+		position = hunk.end;
+	}
+	result.push( ...base.slice( position, end ) );
+	return result;
+}
+
+export type MergeRegion<T> =
+	{ type: 'merged'; tokens: T[] } |
+	{ type: 'conflict'; baseStart: number; base: T[]; ours: T[]; theirs: T[] };
+
+/**
+ * Three-way merge of two sequences derived from a common base, as diff3 does.
+ * Changes from each side are combined where they don't touch. Where both
+ * sides changed the same or adjacent parts of the base differently, a
+ * conflict region holds the three versions.
+ *
+ * @param {Array} base Common base
+ * @param {Array} ours One side derived from the base
+ * @param {Array} theirs Other side derived from the base
+ * @param {Function} [equals] Whether two elements are equal
+ * @return {MergeRegion[]}
+ */
+export function mergeSequences<T>(
+	base: T[], ours: T[], theirs: T[], equals: ( x: T, y: T ) => boolean = ( x, y ) => x === y
+): MergeRegion<T>[] {
+	const ourHunks = getChangeHunks( base, ours, equals );
+	const theirHunks = getChangeHunks( base, theirs, equals );
+	const regions: MergeRegion<T>[] = [];
+	let position = 0;
+	let i = 0;
+	let j = 0;
+
+	while ( i < ourHunks.length || j < theirHunks.length ) {
+		// Start a group with the earliest change, then take in every change touching it
+		const takeOurs = j >= theirHunks.length ||
+			( i < ourHunks.length && ourHunks[ i ].start <= theirHunks[ j ].start );
+		const first = takeOurs ? ourHunks[ i++ ] : theirHunks[ j++ ];
+		const groupOurs = takeOurs ? [ first ] : [];
+		const groupTheirs = takeOurs ? [] : [ first ];
+		const start = first.start;
+		let end = first.end;
+		let grew = true;
+		while ( grew ) {
+			grew = false;
+			while ( i < ourHunks.length && ourHunks[ i ].start <= end ) {
+				groupOurs.push( ourHunks[ i ] );
+				end = Math.max( end, ourHunks[ i++ ].end );
+				grew = true;
+			}
+			while ( j < theirHunks.length && theirHunks[ j ].start <= end ) {
+				groupTheirs.push( theirHunks[ j ] );
+				end = Math.max( end, theirHunks[ j++ ].end );
+				grew = true;
+			}
+		}
+
+		if ( position < start ) {
+			regions.push( { type: 'merged', tokens: base.slice( position, start ) } );
+		}
+		const ourTokens = applyChangeHunks( base, start, end, groupOurs );
+		const theirTokens = applyChangeHunks( base, start, end, groupTheirs );
+		if ( groupTheirs.length === 0 ) {
+			regions.push( { type: 'merged', tokens: ourTokens } );
+		} else if ( groupOurs.length === 0 || (
+			ourTokens.length === theirTokens.length &&
+			ourTokens.every( ( token, index ) => equals( token, theirTokens[ index ] ) )
+		) ) {
+			regions.push( { type: 'merged', tokens: theirTokens } );
+		} else {
+			regions.push( {
+				type: 'conflict',
+				baseStart: start,
+				base: base.slice( start, end ),
+				ours: ourTokens,
+				theirs: theirTokens
+			} );
+		}
+		position = end;
+	}
+
+	if ( position < base.length ) {
+		regions.push( { type: 'merged', tokens: base.slice( position ) } );
+	}
+	return regions;
+}
+
+export interface TextConflict {
+	/**
+	 * Line of the base text the conflict starts at, from 1.
+	 */
+	line: number;
+	base: string;
+	ours: string;
+	theirs: string;
+}
+
+export type TextMergeResult =
+	{ clean: true; text: string } |
+	{ clean: false; conflicts: TextConflict[] };
+
+/**
+ * Three-way merge of texts, line by line. Lines changed on both sides are
+ * merged again word by word, so changes to different sentences of the same
+ * paragraph combine cleanly.
+ *
+ * @param {string} base Common base
+ * @param {string} ours One side derived from the base
+ * @param {string} theirs Other side derived from the base
+ * @return {TextMergeResult}
+ */
+export function mergeTexts( base: string, ours: string, theirs: string ): TextMergeResult {
+	const tokenize = ( text: string ): string[] => text.match( /\s+|[\p{L}\p{N}_']+|[^\s\p{L}\p{N}_']/gu ) ?? [];
+	const merged: string[] = [];
+	const conflicts: TextConflict[] = [];
+
+	for ( const region of mergeSequences( base.split( '\n' ), ours.split( '\n' ), theirs.split( '\n' ) ) ) {
+		if ( region.type === 'merged' ) {
+			merged.push( ...region.tokens );
+			continue;
+		}
+		const [ baseText, ourText, theirText ] = [ region.base, region.ours, region.theirs ]
+			.map( ( lines ) => lines.join( '\n' ) );
+		const conflict = {
+			line: region.baseStart + 1,
+			base: baseText,
+			ours: ourText,
+			theirs: theirText
+		};
+		// Lines removed on one side and edited on the other are a conflict as they are
+		if ( region.ours.length === 0 || region.theirs.length === 0 ) {
+			conflicts.push( conflict );
+			continue;
+		}
+		const wordRegions = mergeSequences(
+			tokenize( baseText ), tokenize( ourText ), tokenize( theirText )
+		);
+		if ( wordRegions.every( ( wordRegion ) => wordRegion.type === 'merged' ) ) {
+			const text = wordRegions
+				.map( ( wordRegion ) => wordRegion.type === 'merged' ? wordRegion.tokens.join( '' ) : '' )
+				.join( '' );
+			merged.push( ...text.split( '\n' ) );
+		} else {
+			conflicts.push( conflict );
+		}
+	}
+
+	return conflicts.length > 0 ? { clean: false, conflicts } : { clean: true, text: merged.join( '\n' ) };
+}
@@ -0,0 +1,235 @@
+/* eslint-disable n/no-missing-import */
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+/* eslint-enable n/no-missing-import */
+import { HttpError } from './utils.js';
+import { isNetworkError } from './requests.js';
+import { ProposalNotFoundError } from './proposals.js';
+
+/**
+ * Stable, machine-readable category of a failed tool call, returned in the
+ * result's `_meta.error.code` so clients can branch on it.
+ */
+export type ErrorCode =
+	'not-found' |
+	'permission-denied' |
+	'edit-conflict' |
+	'rate-limited' |
+	'protected-page' |
+	'invalid-title' |
+	'auth-expired' |
+	'network' |
+	'unknown';
+
+export interface ClassifiedError {
+	code: ErrorCode;
+	/**
+	 * What went wrong, without the raw HTTP response.
+	 */
+	message: string;
+	/**
+	 * What the caller can do about it.
+	 */
+	hint: string;
+	/**
+	 * Error code or key reported by the wiki, e.g. "protectedpage" or
+	 * "rest-nonexistent-title".
+	 */
+	wikiCode?: string;
+	status?: number;
+}
+
+const hints: Record<ErrorCode, string> = {
+	'not-found': 'Check the title, revision or ID. search-page and search-page-by-prefix find existing pages.',
+	'permission-denied': 'The wiki account lacks the right for this action. whoami lists its rights; ask a wiki administrator if it needs more.',
+	'edit-conflict': 'The page changed since the revision the edit was based on. Fetch the current revision with get-page, reapply the change, and retry with its latestId.',
+	'rate-limited': 'The wiki is limiting requests. Wait a minute before retrying, and make fewer calls in a row.',
+	'protected-page': 'The page is protected against this action. Propose the change on its talk page, or ask an administrator.',
+	'invalid-title': 'The title contains characters that are not allowed, or is empty. Check its spelling and namespace prefix.',
+	'auth-expired': 'The wiki did not accept the configured credentials. The OAuth token or bot password may have expired or been revoked; update it in the config.',
+	network: 'The wiki could not be reached. Check the server URL in the config and that the wiki is up, then retry.',
+	unknown: 'Check the message for details.'
+};
+
+/**
+ * Action API error codes, and REST error keys, by category. REST keys from
+ * action modules ("apierror-...") are looked up without their prefix.
+ */
+const wikiCodes: Record<string, ErrorCode> = {
+	missingtitle: 'not-found',
+	nosuchpageid: 'not-found',
+	nosuchrevid: 'not-found',
+	nosuchsection: 'not-found',
+	revwrongpage: 'not-found',
+	filenotfound: 'not-found',
+	'rest-nonexistent-title': 'not-found',
+	'rest-nonexistent-revision': 'not-found',
+	'rest-no-revision': 'not-found',
+	'rest-nonexistent-file': 'not-found',
+	permissiondenied: 'permission-denied',
+	writeapidenied: 'permission-denied',
+	cantcreate: 'permission-denied',
+	'cantcreate-anon': 'permission-denied',
+	noedit: 'permission-denied',
+	'noedit-anon': 'permission-denied',
+	cantmove: 'permission-denied',
+	'cantmove-anon': 'permission-denied',
+	blocked: 'permission-denied',
+	autoblocked: 'permission-denied',
+	'rest-permission-denied-revision': 'permission-denied',
+	'rest-permission-denied-title': 'permission-denied',
+	'rest-permission-error': 'permission-denied',
+	editconflict: 'edit-conflict',
+	'rest-edit-conflict': 'edit-conflict',
+	'rest-update-mismatch': 'edit-conflict',
+	undofailure: 'edit-conflict',
+	alreadyrolled: 'edit-conflict',
+	ratelimited: 'rate-limited',
+	actionthrottled: 'rate-limited',
+	maxlag: 'rate-limited',
+	'rest-rate-limit-exceeded': 'rate-limited',
+	protectedpage: 'protected-page',
+	protectedtitle: 'protected-page',
+	cascadeprotected: 'protected-page',
+	protectednamespace: 'protected-page',
+	'protectednamespace-interface': 'protected-page',
+	invalidtitle: 'invalid-title',
+	'rest-invalid-title': 'invalid-title',
+	badtoken: 'auth-expired',
+	notloggedin: 'auth-expired',
+	assertuserfailed: 'auth-expired',
+	assertbotfailed: 'auth-expired',
+	assertnameduserfailed: 'auth-expired',
+	'mwoauth-invalid-authorization': 'auth-expired',
+	'mwoauth-invalid-authorization-invalid-user': 'auth-expired',
+	// mwn's code for a login with rejected credentials
+	// eslint-disable-next-line camelcase
+	mwn_failedlogin: 'auth-expired'
+};
+
+const statusCodes: Record<number, ErrorCode> = {
+	401: 'auth-expired',
+	403: 'permission-denied',
+	404: 'not-found',
+	409: 'edit-conflict',
+	429: 'rate-limited',
+	502: 'network',
+	503: 'network',
+	504: 'network'
+};
+
+/**
+ * Longest part of an unparseable response body kept in the message.
+ */
+const MAX_BODY_LENGTH = 300;
+
+interface RestErrorBody {
+	errorKey?: string;
+	message?: string;
+	messageTranslations?: Record<string, string>;
+	httpReason?: string;
+	actionModuleError?: { code?: string };
+}
+
+function lookUpWikiCode( code: string | undefined ): ErrorCode | undefined {
+	return code === undefined ? undefined : wikiCodes[ code ] ?? wikiCodes[ code.replace( /^apierror-/, '' ) ];
+}
+
+function classifyHttpError( error: HttpError ): Omit<ClassifiedError, 'hint'> {
+	let body: RestErrorBody | undefined;
+	try {
+		body = JSON.parse( error.body ) as RestErrorBody;
+	} catch {
+		// Not a REST error response, e.g. an HTML page from a proxy
+	}
+
+	const wikiCode = body?.actionModuleError?.code ?? body?.errorKey;
+	const text = body?.messageTranslations?.en ?? body?.message ?? body?.httpReason ??
+		( error.body.trim().slice( 0, MAX_BODY_LENGTH ) || 'no response body' );
+	return {
+		code: lookUpWikiCode( body?.actionModuleError?.code ) ?? lookUpWikiCode( body?.errorKey ) ??
+			statusCodes[ error.status ] ?? 'unknown',
+		message: `${ text } (HTTP ${ error.status }${ wikiCode ? `, ${ wikiCode }` : '' })`,
+		wikiCode,
+		status: error.status
+	};
+}
+
+/**
+ * Sort an error thrown while calling the wiki into a category, from the
+ * REST API's error key, the Action API's error code or the HTTP status.
+ *
+ * @param {unknown} error Error thrown
+ * @return {ClassifiedError}
+ */
+export function classifyError( error: unknown ): ClassifiedError {
+	if ( !( error instanceof Error ) ) {
+		return { code: 'unknown', message: String( error ), hint: hints.unknown };
+	}
+	if ( error instanceof HttpError ) {
+		const classified = classifyHttpError( error );
+		return { ...classified, hint: hints[ classified.code ] };
+	}
+	if ( error instanceof ProposalNotFoundError ) {
+		return { code: 'not-found', message: error.message, hint: 'Use list-pending-proposals to get current claim IDs.' };
+	}
+	if ( isNetworkError( error ) ) {
+		const cause = error.cause instanceof Error ? `: ${ error.cause.message }` : '';
+		return { code: 'network', message: `${ error.message }${ cause }`, hint: hints.network };
+	}
+
+	// mwn errors carry the Action API error code; failed HTTP requests made
+	// by mwn carry the response. Action API errors come with status 200.
+	const { code: wikiCode, response } = error as {
+		code?: unknown;
+		response?: { status?: unknown };
+	};
+	const status = typeof response?.status === 'number' && response.status >= 400 ? response.status : undefined;
+	const code = ( typeof wikiCode === 'string' ? lookUpWikiCode( wikiCode ) : undefined ) ??
+		( status === undefined ? undefined : statusCodes[ status ] ) ?? 'unknown';
+	return {
+		code,
+		message: error.message,
+		hint: hints[ code ],
+		...( typeof wikiCode === 'string' ? { wikiCode } : {} ),
+		...( status === undefined ? {} : { status } )
+	};
+}
+
+/**
+ * Build the result of a failed tool call, with the error's code and hint.
+ *
+ * @param {string} text Error message
+ * @param {Object} error Code and hint of the error
+ * @return {CallToolResult}
+ */
+export function classifiedErrorResult(
+	text: string, error: Omit<ClassifiedError, 'message'>
+): CallToolResult {
+	return {
+		content: [
+			{ type: 'text', text } as TextContent,
+			{ type: 'text', text: `Error code: ${ error.code }. ${ error.hint }` } as TextContent
+		],
+		isError: true,
+		_meta: {
+			error: {
+				code: error.code,
+				...( error.wikiCode === undefined ? {} : { wikiCode: error.wikiCode } ),
+				...( error.status === undefined ? {} : { status: error.status } )
+			}
+		}
+	};
+}
+
+/**
+ * Build the result of a tool call that failed with an error, e.g.
+ * `errorResult( 'Failed to retrieve page data', error )`.
+ *
+ * @param {string} prefix Start of the error message
+ * @param {unknown} error Error thrown
+ * @return {CallToolResult}
+ */
+export function errorResult( prefix: string, error: unknown ): CallToolResult {
+	const classified = classifyError( error );
+	return classifiedErrorResult( `${ prefix }: ${ classified.message }`, classified );
+}
@@ -1,42 +1,203 @@
 import { USER_AGENT } from '../server.js';
 import { wikiService } from './wikiService.js';
-import { Mwn, MwnOptions } from 'mwn';
+import type { DeepReadonly } from './wikiService.js';
+import type { WikiConfig } from './config.js';
+import { getSession } from './session.js';
+import { getRequestSettings, isRetriable, sendWithRetries } from './requests.js';
+import { responseCache } from './cache.js';
+import { Mwn, MwnError, MwnOptions } from 'mwn';
+import type { ApiParams, ApiResponse } from 'mwn';
 
-let mwnInstance: Mwn | null = null;
+type RawRequestParams = Parameters<Mwn['rawRequest']>[0];
 
+type RawResponse = Awaited<ReturnType<Mwn['rawRequest']>>;
+
+/**
+ * Action API modules that change pages, with the parameters and response
+ * fields naming the pages they change.
+ */
+const writeActions = new Map<string, string[]>( [
+	[ 'edit', [ 'title' ] ],
+	[ 'move', [ 'from', 'to', 'talkfrom', 'talkto' ] ],
+	[ 'delete', [ 'title' ] ],
+	[ 'undelete', [ 'title' ] ],
+	[ 'rollback', [ 'title' ] ],
+	[ 'upload', [ 'filename' ] ]
+] );
+
+/**
+ * Mwn client whose HTTP requests go through the request layer, so they
+ * share the wiki's concurrency limit and retry settings with REST requests.
+ */
+class WikiMwn extends Mwn {
+	private readonly wikiKey: string;
+
+	public constructor( options: MwnOptions, wikiKey: string ) {
+		super( options );
+		this.wikiKey = wikiKey;
+	}
+
+	/**
+	 * Send an Action API request. After a write, the cached REST responses
+	 * for the pages it changed are dropped, as they are after REST writes.
+	 *
+	 * @param {ApiParams} params Action API parameters
+	 * @param {RawRequestParams} [customRequestOptions] Options for the HTTP request
+	 * @return {Promise<ApiResponse>} The API response
+	 */
+	public override async request(
+		params: ApiParams, customRequestOptions?: RawRequestParams
+	): Promise<ApiResponse> {
+		const response = await super.request( params, customRequestOptions );
+		for ( const title of getWrittenTitles( params, response ) ) {
+			await responseCache.invalidatePage( this.wikiKey, title );
+		}
+		return response;
+	}
+
+	public override async rawRequest( requestOptions: RawRequestParams ): Promise<RawResponse> {
+		const method = requestOptions.method ?? 'GET';
+		let response: RawResponse;
+		try {
+			response = await sendWithRetries(
+				this.wikiKey,
+				getRequestSettings( this.wikiKey ),
+				() => super.rawRequest( requestOptions ),
+				( attempt ) => {
+					if ( 'result' in attempt ) {
+						return isLagged( attempt.result ) ?
+							{ reason: 'wiki is lagged', retryAfter: attempt.result.headers[ 'retry-after' ] as string | undefined } :
+							undefined;
+					}
+					const failed = ( attempt.error as { response?: RawResponse } ).response;
+					const retryAfter = failed?.headers[ 'retry-after' ] as string | undefined;
+					const failure = { status: failed?.status, retryAfter, error: attempt.error };
+					if ( !isRetriable( method, failure ) ) {
+						return undefined;
+					}
+					return {
+						reason: failed ? `HTTP ${ failed.status }` : ( attempt.error as Error ).message,
+						retryAfter
+					};
+				}
+			);
+		} catch ( error ) {
+			// Retried here already; mwn would retry again after a fixed pause
+			( error as { disableRetry?: boolean } ).disableRetry = true;
+			throw error;
+		}
+
+		if ( isLagged( response ) ) {
+			const { data } = response as { data: { error?: { code: string; info?: string } } };
+			throw new MwnError( { code: 'maxlag', info: data.error?.info, disableRetry: true } );
+		}
+		return response;
+	}
+}
+
+/**
+ * Titles of the pages an Action API request changed, as requested and as
+ * normalized in the response. Empty for requests that don't change pages.
+ *
+ * @param {ApiParams} params Action API parameters
+ * @param {ApiResponse} response The API response
+ * @return {string[]}
+ */
+function getWrittenTitles( params: ApiParams, response: ApiResponse ): string[] {
+	const action = typeof params.action === 'string' ? params.action : '';
+	const fields = writeActions.get( action ) ?? [];
+	const result = ( response[ action ] ?? {} ) as Record<string, unknown>;
+	const titles = new Set<string>();
+	for ( const field of fields ) {
+		for ( const value of [ params[ field ], result[ field ] ] ) {
+			if ( typeof value === 'string' ) {
+				titles.add( action === 'upload' ? `File:${ value }` : value );
+			}
+		}
+	}
+	return [ ...titles ];
+}
+
+function isLagged( response: RawResponse ): boolean {
+	return response.headers[ 'mediawiki-api-error' ] === 'maxlag';
+}
+
+/**
+ * The wiki config each client was created from. A client whose wiki was
+ * edited in the config file since is replaced.
+ */
+const clientConfigs = new WeakMap<Promise<Mwn>, DeepReadonly<WikiConfig>>();
+
+/**
+ * Get the Mwn client for the current wiki, creating and logging it in
+ * the first time it is used in this session.
+ *
+ * @return {Promise<Mwn>}
+ */
 export async function getMwn(): Promise<Mwn> {
-	if ( mwnInstance ) {
-		return mwnInstance;
+	const { key, config } = wikiService.getCurrent();
+	const clients = getSession().mwnByWiki;
+
+	let client = clients.get( key );
+	if ( !client || clientConfigs.get( client ) !== config ) {
+		const created = createMwn();
+		clients.set( key, created );
+		clientConfigs.set( created, config );
+		// Don't keep a failed login around, so the next call tries again
+		created.catch( () => {
+			if ( clients.get( key ) === created ) {
+				clients.delete( key );
+			}
+		} );
+		client = created;
 	}
+	return client;
+}
 
+async function createMwn(): Promise<Mwn> {
+	const { key, config } = wikiService.getCurrent();
 	const {
 		server,
 		scriptpath,
 		token,
 		username,
 		password
-	} = wikiService.getCurrent().config;
+	} = config;
 
 	const options: MwnOptions = {
-		apiUrl: `${ server }${ scriptpath }/api.php`,
-		userAgent: USER_AGENT
+		// Protocol-relative servers are requested over HTTPS, as by fetchCore
+		apiUrl: `${ server.startsWith( '//' ) ? 'https:' : '' }${ server }${ scriptpath }/api.php`,
+		userAgent: USER_AGENT,
+		defaultParams: { maxlag: getRequestSettings( key ).maxlag }
 	};
 
+	// Mwn.init() always creates a plain Mwn, so log in the way it does
 	if ( token ) {
 		options.OAuth2AccessToken = token;
-		mwnInstance = await Mwn.init( options );
-	} else if ( username && password ) {
+		const mwn = new WikiMwn( options, key );
+		mwn.initOAuth();
+		await mwn.getTokensAndSiteInfo();
+		return mwn;
+	}
+	if ( username && password ) {
 		options.username = username;
 		options.password = password;
-		mwnInstance = await Mwn.init( options );
-	} else {
-		mwnInstance = new Mwn( options );
-		await mwnInstance.getSiteInfo();
+		const mwn = new WikiMwn( options, key );
+		await mwn.login();
+		return mwn;
 	}
 
-	return mwnInstance;
+	const mwn = new WikiMwn( options, key );
+	await mwn.getSiteInfo();
+	return mwn;
 }
 
-export function clearMwnCache(): void {
-	mwnInstance = null;
+/**
+ * Forget this session's client for a wiki (the current one by default),
+ * so the next call creates and logs in a new one.
+ *
+ * @param {string} [wikiKey] Key of the wiki in the configuration
+ */
+export function clearMwnCache( wikiKey: string = wikiService.getCurrent().key ): void {
+	getSession().mwnByWiki.delete( wikiKey );
 }
@@ -0,0 +1,135 @@
+import { wikiService } from './wikiService.js';
+import { getSession } from './session.js';
+import type { ProfileConfig } from './config.js';
+import type { DeepReadonly } from './wikiService.js';
+
+const READONLY_TOOLS = [
+	'get-page',
+	'get-pages',
+	'get-page-sections',
+	'get-section',
+	'get-page-history',
+	'get-revision',
+	'get-file',
+	'get-category-members',
+	'search-page',
+	'search-page-by-prefix',
+	'list-pending-proposals',
+	'preview-edit',
+	'set-wiki',
+	'whoami'
+];
+
+const EDITOR_TOOLS = [
+	'create-page',
+	'update-page',
+	'update-section',
+	'append-section',
+	'upload-file',
+	'upload-file-from-url',
+	'move-page',
+	'apply-edits',
+	'revert-page',
+	'undo-revision',
+	'rollback-user-edits',
+	'approve-proposal',
+	'reject-proposal'
+];
+
+const ADMIN_TOOLS = [
+	'delete-page',
+	'undelete-page',
+	'add-wiki',
+	'remove-wiki'
+];
+
+/**
+ * Profiles available without any config. Each extends the one before it.
+ */
+export const builtinProfiles: Record<string, ProfileConfig> = {
+	readonly: { tools: READONLY_TOOLS },
+	editor: { extends: 'readonly', tools: EDITOR_TOOLS },
+	admin: { extends: 'editor', tools: ADMIN_TOOLS }
+};
+
+export class ProfileError extends Error {
+	public constructor( message: string ) {
+		super( message );
+		this.name = 'ProfileError';
+	}
+}
+
+function getProfileConfig( name: string ): DeepReadonly<ProfileConfig> | undefined {
+	return wikiService.getProfiles()[ name ] ?? builtinProfiles[ name ];
+}
+
+/**
+ * The tools a profile allows, including those of the profiles it extends.
+ * Custom profiles may reuse the name of a built-in one to replace it.
+ *
+ * @param {string} name Name of the profile
+ * @param {string[]} [seen] Profiles extending this one, to catch cycles
+ * @return {string[]}
+ */
+export function getProfileTools( name: string, seen: string[] = [] ): string[] {
+	if ( seen.includes( name ) ) {
+		throw new ProfileError( `Profile "${ name }" extends itself: ${ [ ...seen, name ].join( ' > ' ) }` );
+	}
+	const profile = getProfileConfig( name );
+	if ( !profile ) {
+		const names = new Set( [
+			...Object.keys( builtinProfiles ),
+			...Object.keys( wikiService.getProfiles() )
+		] );
+		throw new ProfileError( `Unknown profile "${ name }". Available profiles: ${ [ ...names ].join( ', ' ) }` );
+	}
+	const inherited = profile.extends ? getProfileTools( profile.extends, [ ...seen, name ] ) : [];
+	return [ ...new Set( [ ...inherited, ...( profile.tools ?? [] ) ] ) ];
+}
+
+/**
+ * Check that every profile the config refers to exists and resolves,
+ * so mistakes show up at startup rather than when a client connects.
+ */
+export function checkProfiles(): void {
+	const names = [
+		...Object.keys( wikiService.getProfiles() ),
+		wikiService.getTransportProfile( 'stdio' ),
+		wikiService.getTransportProfile( 'http' ),
+		...Object.values( wikiService.getAll() ).map( ( wiki ) => wiki.profile ),
+		...wikiService.getApiKeys().map( ( apiKey ) => apiKey.profile )
+	];
+	for ( const name of names ) {
+		if ( name !== undefined ) {
+			getProfileTools( name );
+		}
+	}
+}
+
+/**
+ * The tools that may be called against a wiki: those allowed by the
+ * session's profile, the wiki's profile and the client's API key, where
+ * they are set. Undefined when none is set, as all tools are allowed.
+ *
+ * @param {string} wikiKey Key of the wiki in the configuration
+ * @return {string[]|undefined}
+ */
+export function getAllowedTools( wikiKey: string ): string[] | undefined {
+	const { profile, client } = getSession();
+	const toolLists = [ profile, wikiService.get( wikiKey )?.profile ]
+		.filter( ( name ): name is string => name !== undefined )
+		.map( ( name ) => getProfileTools( name ) );
+	if ( client?.tools ) {
+		toolLists.push( [ ...client.tools ] );
+	}
+	if ( toolLists.length === 0 ) {
+		return undefined;
+	}
+	return toolLists.reduce(
+		( allowed, tools ) => allowed.filter( ( tool ) => tools.includes( tool ) )
+	);
+}
+
+export function isToolAllowedOnWiki( toolName: string, wikiKey: string ): boolean {
+	return getAllowedTools( wikiKey )?.includes( toolName ) ?? true;
+}
@@ -0,0 +1,354 @@
+import { createHash } from 'node:crypto';
+import {
+	getWrappedContent,
+	stripBotProposes,
+	unescapePipes
+} from '../middleware/verification.js';
+import type { VerificationPolicy } from '../middleware/verificationPolicy.js';
+import type { ProposalContext } from '../middleware/types.js';
+import { getVerificationPolicy } from '../middleware/verificationPolicy.js';
+import { makeRestGetRequest, makeRestPutRequest, formatEditComment } from './utils.js';
+import type { MwRestApiPageObject } from '../types/mwRestApi.js';
+import {
+	findTemplateEnd,
+	findTopLevelChar,
+	normalizeTemplateName,
+	parseBlocks,
+	parseTemplate,
+	splitTemplateParams
+} from './wikitext.js';
+
+type Heading = [ offset: number, text: string ];
+
+export type ProposalKind = 'wrapper' | 'status';
+
+export enum ProposalResolution {
+	approvePlain = 'approve-plain',
+	approveVerified = 'approve-verified',
+	reject = 'reject'
+}
+
+export class ProposalNotFoundError extends Error {
+	public constructor( message: string ) {
+		super( message );
+		this.name = 'ProposalNotFoundError';
+	}
+}
+
+export interface PendingProposal {
+	/**
+	 * Stable identifier derived from the claim content.
+	 */
+	id: string;
+	kind: ProposalKind;
+	/**
+	 * Heading of the section containing the claim, or null for the lead.
+	 */
+	section: string | null;
+	/**
+	 * Value of the by= parameter, if the wrapper has one.
+	 */
+	proposer: string | null;
+	/**
+	 * The claim text (wrappers) or the template name (status templates).
+	 */
+	content: string;
+	/**
+	 * Value of the status parameter for status templates.
+	 */
+	status?: string;
+	/**
+	 * Parameters listed in proposed_fields, when only some fields of a
+	 * status template are awaiting review.
+	 */
+	fields?: string[];
+	/**
+	 * Raw wikitext of the wrapper or template, as it appears on the page.
+	 */
+	raw: string;
+	start: number;
+	end: number;
+}
+
+function isTemplateNamed( name: string, expected: string ): boolean {
+	return normalizeTemplateName( name ) === normalizeTemplateName( expected );
+}
+
+function makeProposalId( kind: ProposalKind, content: string ): string {
+	return createHash( 'sha1' )
+		.update( `${ kind }:${ content.replace( /\s+/g, ' ' ).trim() }` )
+		.digest( 'hex' )
+		.slice( 0, 10 );
+}
+
+/**
+ * Build a sorted list of [offset, heading] pairs for section lookup.
+ *
+ * @param {string} source Page source
+ * @return {Heading[]}
+ */
+function findHeadings( source: string ): Heading[] {
+	return parseBlocks( source )
+		.filter( ( block ) => block.type === 'heading' )
+		.map( ( block ): Heading => [ block.start, block.content ?? '' ] );
+}
+
+function sectionAt( headings: Heading[], offset: number ): string | null {
+	let section: string | null = null;
+	for ( const [ headingOffset, heading ] of headings ) {
+		if ( headingOffset > offset ) {
+			break;
+		}
+		section = heading;
+	}
+	return section;
+}
+
+function parseWrapper(
+	raw: string
+): { escapedContent: string; content: string; proposer: string | null } {
+	const by = parseTemplate( raw ).params.find( ( param ) => param.name === 'by' );
+	const escapedContent = getWrappedContent( raw );
+	return {
+		escapedContent,
+		content: unescapePipes( escapedContent ),
+		proposer: by?.value || null
+	};
+}
+
+function findStatusParam( raw: string ): string | null {
+	for ( const param of splitTemplateParams( raw.slice( 2, -2 ) ).slice( 1 ) ) {
+		const match = param.match( /^\s*status\s*=\s*(proposed|unverified)\s*$/i );
+		if ( match ) {
+			return match[ 1 ].toLowerCase();
+		}
+	}
+	return null;
+}
+
+/**
+ * Find every pending claim on a page: Bot_proposes wrappers, and
+ * status-capable templates whose status is proposed or unverified.
+ *
+ * @param {string} source Page source
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {PendingProposal[]}
+ */
+export function findPendingProposals(
+	source: string, policy: VerificationPolicy
+): PendingProposal[] {
+	const proposals: PendingProposal[] = [];
+	const headings = findHeadings( source );
+	const seenIds = new Map<string, number>();
+	let i = 0;
+
+	while ( i < source.length - 1 ) {
+		if ( source[ i ] !== '{' || source[ i + 1 ] !== '{' ) {
+			i++;
+			continue;
+		}
+
+		const end = findTemplateEnd( source, i );
+		const raw = source.slice( i, end );
+		const name = parseTemplate( raw ).name;
+
+		if ( isTemplateNamed( name, policy.wrapperTemplate ) ) {
+			const { content, proposer } = parseWrapper( raw );
+			proposals.push( {
+				id: makeProposalId( 'wrapper', content ),
+				kind: 'wrapper',
+				section: sectionAt( headings, i ),
+				proposer,
+				content,
+				raw,
+				start: i,
+				end
+			} );
+			// Don't look for claims nested inside a claim
+			i = end;
+			continue;
+		}
+
+		const hasStatus = policy.templatesWithStatus
+			.some( ( template ) => isTemplateNamed( name, template ) );
+		if ( hasStatus ) {
+			const status = findStatusParam( raw );
+			if ( status ) {
+				const fields = parseTemplate( raw ).params
+					.find( ( param ) => param.name === 'proposed_fields' )?.value
+					.split( ',' ).map( ( field ) => field.trim() ).filter( Boolean );
+				proposals.push( {
+					id: makeProposalId( 'status', raw ),
+					kind: 'status',
+					section: sectionAt( headings, i ),
+					proposer: null,
+					content: name,
+					status,
+					fields: fields?.length ? fields : undefined,
+					raw,
+					start: i,
+					end
+				} );
+			}
+		}
+
+		i += 2;
+	}
+
+	// Identical claims on the same page get a numeric suffix so each stays addressable
+	for ( const proposal of proposals ) {
+		const count = ( seenIds.get( proposal.id ) ?? 0 ) + 1;
+		seenIds.set( proposal.id, count );
+		if ( count > 1 ) {
+			proposal.id = `${ proposal.id }-${ count }`;
+		}
+	}
+
+	return proposals;
+}
+
+export function getWrapperTemplateTitle( policy: VerificationPolicy ): string {
+	return `Template:${ policy.wrapperTemplate }`;
+}
+
+export function getStatusTemplateTitles( policy: VerificationPolicy ): string[] {
+	return policy.templatesWithStatus.map( ( template ) => `Template:${ template }` );
+}
+
+function rebuildStatusTemplate( raw: string, resolution: ProposalResolution ): string {
+	const params = splitTemplateParams( raw.slice( 2, -2 ) );
+	const rebuilt: string[] = [];
+
+	for ( const param of params ) {
+		if ( /^\s*proposed_fields\s*=/.test( param ) ) {
+			// The field list only means something while the template is pending
+			continue;
+		}
+		const match = param.match( /^(\s*status\s*=\s*)(proposed|unverified)(\s*)$/i );
+		if ( !match ) {
+			rebuilt.push( param );
+		} else if ( resolution === ProposalResolution.approveVerified ) {
+			rebuilt.push( `${ match[ 1 ] }verified${ match[ 3 ] }` );
+		}
+		// approve-plain drops the status parameter entirely
+	}
+
+	return `{{${ rebuilt.join( '|' ) }}}`;
+}
+
+/**
+ * Remove a span of text, and the line around it if nothing but list markup remains.
+ *
+ * @param {string} source Page source
+ * @param {number} start Start offset of the span
+ * @param {number} end End offset of the span
+ * @return {string}
+ */
+function removeSpan( source: string, start: number, end: number ): string {
+	const lineStart = source.lastIndexOf( '\n', start - 1 ) + 1;
+	let lineEnd = source.indexOf( '\n', end );
+	if ( lineEnd === -1 ) {
+		lineEnd = source.length;
+	}
+
+	const remainder = source.slice( lineStart, start ) + source.slice( end, lineEnd );
+	if ( /^[*#:;\s]*$/.test( remainder ) ) {
+		return source.slice( 0, lineStart ) +
+			source.slice( Math.min( lineEnd + 1, source.length ) );
+	}
+
+	// Collapse the doubled space left behind by an inline removal
+	if ( /[ \t]$/.test( source.slice( 0, start ) ) && /^[\s.,;:!?]/.test( source.slice( end ) ) ) {
+		start = source.slice( 0, start ).replace( /[ \t]+$/, '' ).length;
+	}
+
+	return source.slice( 0, start ) + source.slice( end );
+}
+
+/**
+ * Apply an approve or reject decision to a single claim in a page source.
+ *
+ * @param {string} source Page source
+ * @param {PendingProposal} proposal Claim to resolve
+ * @param {ProposalResolution} resolution How the claim is resolved
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {string} The resolved source
+ */
+export function resolveProposalInSource(
+	source: string,
+	proposal: PendingProposal,
+	resolution: ProposalResolution,
+	policy: VerificationPolicy
+): string {
+	if ( resolution === ProposalResolution.reject ) {
+		return removeSpan( source, proposal.start, proposal.end );
+	}
+
+	let replacement: string;
+	if ( proposal.kind === 'status' ) {
+		replacement = rebuildStatusTemplate( proposal.raw, resolution );
+	} else if ( resolution === ProposalResolution.approveVerified ) {
+		// Keep the content exactly as escaped on the page, so pipes inside
+		// nested templates and links are not escaped a second time
+		const { escapedContent } = parseWrapper( proposal.raw );
+		const param = findTopLevelChar( escapedContent, '=' ) === -1 ? escapedContent : `1=${ escapedContent }`;
+		replacement = `{{verified|${ param }}}`;
+	} else {
+		replacement = stripBotProposes( proposal.raw, policy.wrapperTemplate );
+	}
+
+	return source.slice( 0, proposal.start ) + replacement + source.slice( proposal.end );
+}
+
+/**
+ * Find a pending claim on a wiki page and work out the page's source with
+ * the claim resolved, along with the revision that source is based on.
+ *
+ * @param {string} title Wiki page title
+ * @param {string} claimId Claim ID returned by list-pending-proposals
+ * @param {ProposalResolution} resolution How the claim is resolved
+ * @return {Promise<Object>} The claim, the resolved source and the latest revision ID
+ */
+export async function prepareProposalResolution(
+	title: string,
+	claimId: string,
+	resolution: ProposalResolution
+): Promise<{ proposal: PendingProposal; source: string; latestId: number }> {
+	const current = await makeRestGetRequest<MwRestApiPageObject>(
+		`/v1/page/${ encodeURIComponent( title ) }`, undefined, true
+	);
+	const policy = getVerificationPolicy();
+	const proposal = findPendingProposals( current.source ?? '', policy )
+		.find( ( candidate ) => candidate.id === claimId );
+
+	if ( !proposal ) {
+		throw new ProposalNotFoundError(
+			`Claim ${ claimId } is not pending on ${ title }. Use list-pending-proposals to get current claim IDs.`
+		);
+	}
+
+	return {
+		proposal,
+		source: resolveProposalInSource( current.source ?? '', proposal, resolution, policy ),
+		latestId: current.latest.id
+	};
+}
+
+/**
+ * Save a resolved claim. The context comes out of the middleware pipeline,
+ * where verification leaves it alone so the resolved content is not wrapped
+ * for verification again.
+ *
+ * @param {ProposalContext} context The resolution, after the middleware's onInput
+ * @return {Promise<MwRestApiPageObject>} The saved page
+ */
+export async function saveProposalResolution(
+	context: ProposalContext
+): Promise<MwRestApiPageObject> {
+	const path = `/v1/page/${ encodeURIComponent( context.title ) }`;
+	return makeRestPutRequest<MwRestApiPageObject>( path, {
+		source: context.source,
+		comment: formatEditComment( context.tool, context.comment ),
+		latest: { id: context.latestId }
+	}, true );
+}
@@ -0,0 +1,222 @@
+import { wikiService } from './wikiService.js';
+import type { RequestsConfig } from './config.js';
+
+export type RequestSettings = Required<RequestsConfig>;
+
+export const DEFAULT_REQUEST_SETTINGS: RequestSettings = {
+	maxRetries: 3,
+	retryDelay: 1000,
+	maxRetryDelay: 30000,
+	maxlag: 5,
+	maxConcurrent: 4
+};
+
+/**
+ * Request settings of a configured wiki, or the defaults for any other server.
+ *
+ * @param {string} [wikiKey] Key of the wiki in the configuration
+ * @return {RequestSettings}
+ */
+export function getRequestSettings( wikiKey?: string ): RequestSettings {
+	return {
+		...DEFAULT_REQUEST_SETTINGS,
+		...( wikiKey === undefined ? {} : wikiService.getRequestsConfig( wikiKey ) )
+	};
+}
+
+/**
+ * Error codes of requests that failed in transit, before any response.
+ */
+const networkErrorCodes = [
+	'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'ECONNABORTED',
+	'EPIPE', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET', 'ERR_NETWORK'
+];
+
+function getErrorCode( error: unknown ): string | undefined {
+	const { code, cause } = error as { code?: unknown; cause?: { code?: unknown } };
+	if ( typeof code === 'string' ) {
+		return code;
+	}
+	return typeof cause?.code === 'string' ? cause.code : undefined;
+}
+
+/**
+ * Whether a request failed because the server could not be reached or
+ * the connection was lost.
+ *
+ * @param {unknown} error Error thrown by the request
+ * @return {boolean}
+ */
+export function isNetworkError( error: unknown ): boolean {
+	if ( !( error instanceof Error ) ) {
+		return false;
+	}
+	return networkErrorCodes.includes( getErrorCode( error ) ?? '' ) ||
+		( error instanceof TypeError && error.message === 'fetch failed' ) ||
+		error.name === 'TimeoutError';
+}
+
+/**
+ * Whether a request that failed this way may be sent again. A request the
+ * wiki turned away (429 Too Many Requests, or 503 Service Unavailable with a
+ * Retry-After) is always retried; other failures only for methods that don't
+ * change anything, since the first attempt may have gone through.
+ *
+ * @param {string} method HTTP method of the request
+ * @param {Object} failure How the request failed
+ * @param {number} [failure.status] HTTP status of the response
+ * @param {string|null} [failure.retryAfter] Retry-After header of the response
+ * @param {unknown} [failure.error] Error thrown, when there was no response
+ * @return {boolean}
+ */
+export function isRetriable(
+	method: string, failure: { status?: number; retryAfter?: string | null; error?: unknown }
+): boolean {
+	if ( failure.status === 429 || ( failure.status === 503 && failure.retryAfter ) ) {
+		return true;
+	}
+	if ( ![ 'GET', 'HEAD' ].includes( method.toUpperCase() ) ) {
+		return false;
+	}
+	if ( failure.status !== undefined ) {
+		return [ 408, 502, 503, 504 ].includes( failure.status );
+	}
+	// A host that doesn't resolve won't on the next attempt either
+	return isNetworkError( failure.error ) && getErrorCode( failure.error ) !== 'ENOTFOUND';
+}
+
+/**
+ * Milliseconds a Retry-After header asks to wait, given as seconds or a date.
+ *
+ * @param {string|null|undefined} value Retry-After header
+ * @return {number|undefined}
+ */
+export function parseRetryAfter( value: string | null | undefined ): number | undefined {
+	if ( !value ) {
+		return undefined;
+	}
+	if ( /^\s*\d+\s*$/.test( value ) ) {
+		return Number( value ) * 1000;
+	}
+	const date = Date.parse( value );
+	return Number.isNaN( date ) ? undefined : Math.max( 0, date - Date.now() );
+}
+
+/**
+ * Delay before retry number `retry` (from 0): what Retry-After asks for, or
+ * an exponential backoff with jitter, so clients that failed together don't
+ * retry together. Undefined when Retry-After asks for more than maxRetryDelay.
+ *
+ * @param {number} retry Number of the retry, from 0
+ * @param {string|null|undefined} retryAfter Retry-After header of the failed attempt
+ * @param {RequestSettings} settings Request settings of the wiki
+ * @return {number|undefined}
+ */
+export function getRetryDelay(
+	retry: number, retryAfter: string | null | undefined, settings: RequestSettings
+): number | undefined {
+	const requested = parseRetryAfter( retryAfter );
+	if ( requested !== undefined ) {
+		return requested > settings.maxRetryDelay ? undefined : requested;
+	}
+	const backoff = Math.min( settings.maxRetryDelay, settings.retryDelay * 2 ** retry );
+	return backoff / 2 + Math.random() * backoff / 2;
+}
+
+/**
+ * Requests in flight to one wiki. Waiting requests are started in order.
+ */
+class ConcurrencyLimit {
+	private active = 0;
+
+	private readonly waiting: ( () => void )[] = [];
+
+	public async acquire( max: number ): Promise<void> {
+		if ( this.active < max ) {
+			this.active++;
+			return;
+		}
+		await new Promise<void>( ( resolve ) => {
+			this.waiting.push( resolve );
+		} );
+	}
+
+	public release(): void {
+		const next = this.waiting.shift();
+		if ( next ) {
+			// The slot passes straight to the next request
+			next();
+		} else {
+			this.active--;
+		}
+	}
+}
+
+const limits = new Map<string, ConcurrencyLimit>();
+
+function getLimit( key: string ): ConcurrencyLimit {
+	let limit = limits.get( key );
+	if ( !limit ) {
+		limit = new ConcurrencyLimit();
+		limits.set( key, limit );
+	}
+	return limit;
+}
+
+export type Attempt<T> = { result: T } | { error: unknown };
+
+export interface RetryAdvice {
+	/**
+	 * Why the attempt failed, for the log.
+	 */
+	reason: string;
+	/**
+	 * The response's Retry-After header, if any.
+	 */
+	retryAfter?: string | null;
+}
+
+/**
+ * Send a request to a wiki, at most maxConcurrent at once per key, and send
+ * it again while `shouldRetry` advises to, up to maxRetries times. The last
+ * attempt's result is returned, or its error thrown.
+ *
+ * @param {string} key Key the concurrency limit applies to, e.g. the wiki's
+ * @param {RequestSettings} settings Request settings of the wiki
+ * @param {Function} send Sends the request once
+ * @param {Function} shouldRetry Advises whether and when to retry an attempt
+ * @return {Promise}
+ */
+export async function sendWithRetries<T>(
+	key: string,
+	settings: RequestSettings,
+	send: () => Promise<T>,
+	shouldRetry: ( attempt: Attempt<T> ) => RetryAdvice | undefined
+): Promise<T> {
+	const limit = getLimit( key );
+	for ( let retry = 0; ; retry++ ) {
+		let attempt: Attempt<T>;
+		await limit.acquire( settings.maxConcurrent );
+		try {
+			attempt = { result: await send() };
+		} catch ( error ) {
+			attempt = { error };
+		} finally {
+			limit.release();
+		}
+
+		const advice = retry < settings.maxRetries ? shouldRetry( attempt ) : undefined;
+		const delay = advice && getRetryDelay( retry, advice.retryAfter, settings );
+		if ( !advice || delay === undefined ) {
+			if ( 'error' in attempt ) {
+				throw attempt.error;
+			}
+			return attempt.result;
+		}
+
+		console.error( `[requests] ${ key }: ${ advice.reason }, retrying in ${ ( delay / 1000 ).toFixed( 1 ) }s (retry ${ retry + 1 } of ${ settings.maxRetries })` );
+		await new Promise( ( resolve ) => {
+			setTimeout( resolve, delay );
+		} );
+	}
+}
@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Mwn } from 'mwn';
+
+/**
+ * The client a session belongs to, as identified by its API key.
+ */
+export interface SessionClient {
+	name: string;
+	/**
+	 * Wikis the client may use. All wikis when undefined.
+	 */
+	wikis?: readonly string[];
+	/**
+	 * Tools the client may call. All tools when undefined.
+	 */
+	tools?: readonly string[];
+}
+
+/**
+ * State scoped to one MCP session: the selected wiki and the API clients,
+ * which hold the session's login cookies.
+ */
+export interface SessionState {
+	/**
+	 * Wiki selected with set-wiki, or undefined for the default wiki.
+	 */
+	wikiKey?: string;
+	/**
+	 * Mwn clients by wiki key.
+	 */
+	mwnByWiki: Map<string, Promise<Mwn>>;
+	/**
+	 * The authenticated client, when the transport requires API keys.
+	 */
+	client?: SessionClient;
+	/**
+	 * Permission profile deciding which tools the session was offered.
+	 * All tools when undefined.
+	 */
+	profile?: string;
+}
+
+export function createSessionState( client?: SessionClient, profile?: string ): SessionState {
+	return { mwnByWiki: new Map(), client, profile };
+}
+
+const storage = new AsyncLocalStorage<SessionState>();
+
+/**
+ * Used outside of any session, i.e. by the stdio transport, which only
+ * ever serves one client.
+ */
+const defaultSession = createSessionState();
+
+export function getSession(): SessionState {
+	return storage.getStore() ?? defaultSession;
+}
+
+/**
+ * Run a function, and everything it calls, within a session.
+ *
+ * @param {SessionState} session State of the session
+ * @param {Function} fn Function to run
+ * @return {*} What the function returns
+ */
+export function runInSession<T>( session: SessionState, fn: () => T ): T {
+	return storage.run( session, fn );
+}
+
+/**
+ * Run a function against a given wiki without changing the session's selection.
+ * The session's API clients are shared.
+ *
+ * @param {string} wikiKey Key of the wiki in the configuration
+ * @param {Function} fn Function to run
+ * @return {*} What the function returns
+ */
+export function runWithWiki<T>( wikiKey: string, fn: () => T ): T {
+	return storage.run( { ...getSession(), wikiKey }, fn );
+}
+
+/**
+ * Whether the session's client may use a wiki.
+ *
+ * @param {string} wikiKey Key of the wiki in the configuration
+ * @return {boolean}
+ */
+export function isWikiAllowed( wikiKey: string ): boolean {
+	const wikis = getSession().client?.wikis;
+	return !wikis || wikis.includes( wikiKey );
+}
+
+/**
+ * Whether the session's client may add and remove wikis. The list of wikis
+ * is shared by all sessions, so clients limited to some wikis may not.
+ *
+ * @return {boolean}
+ */
+export function mayManageWikis(): boolean {
+	return getSession().client?.wikis === undefined;
+}
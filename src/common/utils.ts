@@ -2,6 +2,10 @@ import fetch, { Response } from 'node-fetch';
 import { USER_AGENT } from '../server.js';
 import { wikiService } from './wikiService.js';
 import { getMwn } from './mwn.js';
+import { getSession } from './session.js';
+import { getRequestSettings, isRetriable, sendWithRetries } from './requests.js';
+import { getCacheKey, getCachePolicy, responseCache } from './cache.js';
+import type { MwRestApiRevisionObject } from '../types/mwRestApi.js';
 
 type RequestConfig = {
 	headers: Record<string, string>;
@@ -65,6 +69,33 @@ async function getCookiesFromJar(): Promise<string | undefined> {
 	return cookieJar.getCookieStringSync( server ) || undefined;
 }
 
+export class HttpError extends Error {
+	public readonly status: number;
+
+	public readonly body: string;
+
+	public constructor( message: string, status: number, body: string ) {
+		super( message );
+		this.name = 'HttpError';
+		this.status = status;
+		this.body = body;
+	}
+}
+
+/**
+ * Make an HTTP request, retrying it as the wiki's request settings allow.
+ * `wiki` is the key of the configured wiki the request goes to; requests to
+ * other servers use the default settings, limited per origin.
+ *
+ * @param {string} baseUrl URL of the request, without the query
+ * @param {Object} [options] Options of the request
+ * @param {Object} [options.params] Query parameters
+ * @param {Object} [options.headers] Request headers
+ * @param {Object} [options.body] Body, sent as JSON
+ * @param {string} [options.method] HTTP method, GET by default
+ * @param {string} [options.wiki] Key of the wiki the request goes to
+ * @return {Promise<Response>}
+ */
 async function fetchCore(
 	baseUrl: string,
 	options?: {
@@ -72,6 +103,7 @@ async function fetchCore(
 		headers?: Record<string, string>;
 		body?: Record<string, unknown>;
 		method?: string;
+		wiki?: string;
 	}
 ): Promise<Response> {
 	let url = baseUrl;
@@ -80,11 +112,15 @@ async function fetchCore(
 		url = 'https:' + url;
 	}
 
-	if ( options?.params ) {
-		const queryString = new URLSearchParams( options.params ).toString();
-		if ( queryString ) {
-			url = `${ url }?${ queryString }`;
-		}
+	const settings = getRequestSettings( options?.wiki );
+	const params = { ...options?.params };
+	if ( new URL( url ).pathname.endsWith( '/api.php' ) ) {
+		// Let the wiki turn requests away while its replicas lag
+		params.maxlag ??= String( settings.maxlag );
+	}
+	const queryString = new URLSearchParams( params ).toString();
+	if ( queryString ) {
+		url = `${ url }?${ queryString }`;
 	}
 
 	const requestHeaders: Record<string, string> = {
@@ -102,11 +138,36 @@ async function fetchCore(
 	if ( options?.body ) {
 		fetchOptions.body = JSON.stringify( options.body );
 	}
-	const response = await fetch( url, fetchOptions );
-	if ( !response.ok ) {
+	const method = fetchOptions.method ?? 'GET';
+	const response = await sendWithRetries(
+		options?.wiki ?? new URL( url ).origin,
+		settings,
+		() => fetch( url, fetchOptions ),
+		( attempt ) => {
+			if ( 'error' in attempt ) {
+				return isRetriable( method, { error: attempt.error } ) ?
+					{ reason: ( attempt.error as Error ).message } :
+					undefined;
+			}
+			const { status, headers } = attempt.result;
+			const retryAfter = headers.get( 'Retry-After' );
+			const lagged = headers.get( 'MediaWiki-API-Error' ) === 'maxlag';
+			const retriable = isRetriable( method, { status, retryAfter } );
+			if ( !lagged && ( attempt.result.ok || !retriable ) ) {
+				return undefined;
+			}
+			// Free the connection of the response that is dropped
+			attempt.result.arrayBuffer().catch( () => undefined );
+			return { reason: lagged ? 'wiki is lagged' : `HTTP ${ status }`, retryAfter };
+		}
+	);
+	// 304 Not Modified answers a request for a cached response with If-None-Match
+	if ( !response.ok && response.status !== 304 ) {
 		const errorBody = await response.text().catch( () => 'Could not read error response body' );
-		throw new Error(
-			`HTTP error! status: ${ response.status } for URL: ${ response.url }. Response: ${ errorBody }`
+		throw new HttpError(
+			`HTTP error! status: ${ response.status } for URL: ${ response.url }. Response: ${ errorBody }`,
+			response.status,
+			errorBody
 		);
 	}
 	return response;
@@ -138,13 +199,45 @@ export async function makeRestGetRequest<T>(
 		needAuth
 	);
 
-	const { server, scriptpath } = wikiService.getCurrent().config;
+	const { key, config: { server, scriptpath } } = wikiService.getCurrent();
+
+	const cacheKey = getCacheKey( key, path, params );
+	const policy = getCachePolicy( path );
+	const cached = await responseCache.get( cacheKey );
+	if ( cached && responseCache.isFresh( cached, policy ) ) {
+		return JSON.parse( cached.body ) as T;
+	}
 
 	const response = await fetchCore( `${ server }${ scriptpath }/rest.php${ path }`, {
 		params,
-		headers: authHeaders
+		headers: cached?.etag ? { ...authHeaders, 'If-None-Match': cached.etag } : authHeaders,
+		wiki: key
 	} );
-	return ( await response.json() ) as T;
+	if ( cached && response.status === 304 ) {
+		await responseCache.revalidated( cacheKey, cached );
+		return JSON.parse( cached.body ) as T;
+	}
+
+	const body = await response.text();
+	await responseCache.set( cacheKey, {
+		body,
+		etag: response.headers.get( 'ETag' ) ?? undefined,
+		storedAt: Date.now()
+	} );
+	return JSON.parse( body ) as T;
+}
+
+/**
+ * Forget cached responses about the page a REST write went to.
+ *
+ * @param {string} wikiKey Key of the wiki in the configuration
+ * @param {string} path REST API path of the write
+ */
+async function invalidateWrittenPage( wikiKey: string, path: string ): Promise<void> {
+	const title = /^\/v1\/page\/([^/]+)$/.exec( path )?.[ 1 ];
+	if ( title !== undefined ) {
+		await responseCache.invalidatePage( wikiKey, decodeURIComponent( title ) );
+	}
 }
 
 export async function makeRestPutRequest<T>(
@@ -163,13 +256,15 @@ export async function makeRestPutRequest<T>(
 		needAuth
 	);
 
-	const { server, scriptpath } = wikiService.getCurrent().config;
+	const { key, config: { server, scriptpath } } = wikiService.getCurrent();
 
 	const response = await fetchCore( `${ server }${ scriptpath }/rest.php${ path }`, {
 		headers: authHeaders,
 		method: 'PUT',
-		body: authBody
+		body: authBody,
+		wiki: key
 	} );
+	await invalidateWrittenPage( key, path );
 	return ( await response.json() ) as T;
 }
 
@@ -189,13 +284,15 @@ export async function makeRestPostRequest<T>(
 		needAuth
 	);
 
-	const { server, scriptpath } = wikiService.getCurrent().config;
+	const { key, config: { server, scriptpath } } = wikiService.getCurrent();
 
 	const response = await fetchCore( `${ server }${ scriptpath }/rest.php${ path }`, {
 		headers: authHeaders,
 		method: 'POST',
-		body: authBody
+		body: authBody,
+		wiki: key
 	} );
+	await invalidateWrittenPage( key, path );
 	return ( await response.json() ) as T;
 }
 
@@ -208,6 +305,41 @@ export async function fetchPageHtml( url: string ): Promise<string | null> {
 	}
 }
 
+/**
+ * Fetch the source of a revision, or of one of its sections.
+ *
+ * @param {number} revisionId Revision to fetch
+ * @param {number|undefined} section Index of the section to fetch, or undefined for the whole page
+ * @return {Promise<string|null>} The source, or null if it can't be fetched
+ */
+export async function fetchRevisionSource(
+	revisionId: number, section?: number
+): Promise<string | null> {
+	try {
+		if ( section !== undefined ) {
+			const mwn = await getMwn();
+			const response = await mwn.request( {
+				action: 'query',
+				prop: 'revisions',
+				revids: revisionId,
+				rvprop: 'content',
+				rvslots: 'main',
+				rvsection: section
+			} );
+			return response.query?.pages?.[ 0 ]?.revisions?.[ 0 ]?.slots?.main?.content ?? null;
+		}
+		const cached = responseCache.getRevisionSource( wikiService.getCurrent().key, revisionId );
+		if ( cached !== undefined ) {
+			return cached;
+		}
+		const data = await makeRestGetRequest<MwRestApiRevisionObject>( `/v1/revision/${ revisionId }` );
+		return data.source ?? null;
+	} catch ( error ) {
+		console.error( `Failed to fetch revision ${ revisionId }: ${ ( error as Error ).message }` );
+		return null;
+	}
+}
+
 export async function fetchImageAsBase64( url: string ): Promise<string | null> {
 	try {
 		const response = await fetchCore( url );
@@ -225,7 +357,10 @@ export function getPageUrl( title: string ): string {
 }
 
 export function formatEditComment( tool: string, comment?: string ): string {
-	const suffix = `(via ${ tool } on MediaWiki MCP Server)`;
+	const client = getSession().client;
+	const suffix = client ?
+		`(via ${ tool } for ${ client.name } on MediaWiki MCP Server)` :
+		`(via ${ tool } on MediaWiki MCP Server)`;
 	if ( !comment ) {
 		return `Automated edit ${ suffix }`;
 	}
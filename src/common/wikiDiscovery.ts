@@ -56,11 +56,17 @@ async function fetchWikiInfoFromApi(
 		return null;
 	}
 
+	// Wikimedia wikis report a protocol-relative server, which the Mwn
+	// client can't request; use the protocol the wiki answered on
+	const server = general.server.startsWith( '//' ) ?
+		`${ new URL( wikiServer ).protocol }${ general.server }` :
+		general.server;
+
 	return {
 		sitename: general.sitename,
 		scriptpath: general.scriptpath,
 		articlepath: general.articlepath.replace( '/$1', '' ),
-		server: general.server,
+		server,
 		servername: general.servername
 	};
 }
@@ -1,16 +1,42 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import {
+	ApiKeyConfig,
+	CacheConfig,
+	Config,
+	MiddlewareConfig,
+	ProfileConfig,
+	RequestsConfig,
+	TransportType,
 	WikiConfig,
 	PublicWikiConfig,
-	loadConfigFromFile
+	configPath,
+	loadConfigFromFile,
+	parseConfig,
+	readConfigFile,
+	writeConfigFile
 } from './config.js';
+import { getSession } from './session.js';
 
-type DeepReadonly<T> = {
+export type DeepReadonly<T> = {
 	readonly [P in keyof T]: T[P] extends object ? DeepReadonly<T[P]> : T[P];
 };
 
 const config = loadConfigFromFile();
 
-let currentWikiKey: string = config.defaultWiki;
+/**
+ * Called after the config is reloaded from the file.
+ * wikisChanged tells whether wikis were added, removed or edited.
+ */
+type ReloadListener = ( wikisChanged: boolean ) => void;
+
+const reloadListeners = new Set<ReloadListener>();
+
+/**
+ * Content of the config file as last read or written, to tell our own
+ * writes from edits made by someone else.
+ */
+let lastFileContent: string | undefined;
 
 function sanitize( wikiConfig: DeepReadonly<WikiConfig> ): PublicWikiConfig {
 	// eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -26,6 +52,25 @@ function get( key: string ): DeepReadonly<WikiConfig> | undefined {
 	return config.wikis[ key ] as DeepReadonly<WikiConfig> | undefined;
 }
 
+/**
+ * With persist set, apply a change to the config file. The change is made
+ * to the file's own content, so values resolved while loading it are never
+ * written back, and the rest of the file is left as it is.
+ *
+ * @param {Function} change Changes the config read from the file, in place
+ */
+function persist( change: ( fileConfig: Config ) => void ): void {
+	if ( !config.persist ) {
+		return;
+	}
+	// Not parseConfig, which would resolve secret references
+	const fileConfig = JSON.parse( readConfigFile() ) as Config;
+	change( fileConfig );
+	const content = `${ JSON.stringify( fileConfig, null, 2 ) }\n`;
+	writeConfigFile( content );
+	lastFileContent = content;
+}
+
 function add( key: string, wikiConfig: WikiConfig ): void {
 	if ( !key || key.trim() === '' ) {
 		throw new Error( 'Wiki key cannot be empty' );
@@ -35,30 +80,178 @@ function add( key: string, wikiConfig: WikiConfig ): void {
 		throw new Error( `Wiki "${ key }" already exists in configuration` );
 	}
 
+	persist( ( fileConfig ) => {
+		fileConfig.wikis[ key ] = wikiConfig;
+	} );
 	config.wikis[ key ] = wikiConfig;
 }
 
 function remove( key: string ): void {
+	if ( key === config.defaultWiki ) {
+		throw new Error( `Wiki "${ key }" is the default wiki and cannot be removed` );
+	}
+
+	persist( ( fileConfig ) => {
+		delete fileConfig.wikis[ key ];
+	} );
 	delete config.wikis[ key ];
 }
 
+/**
+ * Replace the config with a newly read one. Unchanged wikis keep their
+ * config objects, so API clients created for them are kept.
+ *
+ * @param {Config} next Newly read config
+ */
+function applyReload( next: Config ): void {
+	const previousWikis = config.wikis;
+	let wikisChanged = Object.keys( previousWikis ).some( ( key ) => !next.wikis[ key ] );
+	for ( const key in next.wikis ) {
+		const unchanged = previousWikis[ key ] &&
+			JSON.stringify( previousWikis[ key ] ) === JSON.stringify( next.wikis[ key ] );
+		if ( unchanged ) {
+			next.wikis[ key ] = previousWikis[ key ];
+		} else {
+			wikisChanged = true;
+		}
+	}
+
+	for ( const key of Object.keys( config ) as ( keyof Config )[] ) {
+		delete config[ key ];
+	}
+	Object.assign( config, next );
+
+	for ( const listener of reloadListeners ) {
+		listener( wikisChanged );
+	}
+}
+
+function reload(): void {
+	let content: string;
+	let next: Config;
+	try {
+		content = readConfigFile();
+		if ( content === lastFileContent ) {
+			return;
+		}
+		next = parseConfig( content );
+	} catch ( error ) {
+		console.error( `[config] Not reloading ${ configPath }: ${ ( error as Error ).message }` );
+		return;
+	}
+	lastFileContent = content;
+	applyReload( next );
+	console.error( `[config] Reloaded ${ configPath }` );
+}
+
+/**
+ * With persist set, reload the config whenever the file changes.
+ * The directory is watched, as the file is replaced when written.
+ */
+function watch(): void {
+	if ( !config.persist || !fs.existsSync( configPath ) ) {
+		return;
+	}
+	lastFileContent = readConfigFile();
+
+	let timer: NodeJS.Timeout | undefined;
+	fs.watch( path.dirname( path.resolve( configPath ) ), ( _event, filename ) => {
+		if ( filename !== path.basename( configPath ) ) {
+			return;
+		}
+		// Editors write in several steps; wait until they are done
+		clearTimeout( timer );
+		timer = setTimeout( reload, 200 );
+	} );
+	console.error( `[config] Watching ${ configPath } for changes` );
+}
+
+/**
+ * Register a function called after each reload. Returns a function
+ * removing it again.
+ *
+ * @param {ReloadListener} listener Function to call
+ * @return {Function}
+ */
+function onReload( listener: ReloadListener ): () => void {
+	reloadListeners.add( listener );
+	return () => reloadListeners.delete( listener );
+}
+
+/**
+ * The wiki selected in the current session, or the default wiki.
+ *
+ * @return {{key: string, config: WikiConfig}}
+ */
 function getCurrent(): { key: string; config: DeepReadonly<WikiConfig> } {
+	const key = getSession().wikiKey ?? config.defaultWiki;
+	if ( !config.wikis[ key ] ) {
+		throw new Error( `Wiki "${ key }" is no longer configured. Use set-wiki to select another wiki.` );
+	}
 	return {
-		key: currentWikiKey,
-		config: config.wikis[ currentWikiKey ] as DeepReadonly<WikiConfig>
+		key,
+		config: config.wikis[ key ] as DeepReadonly<WikiConfig>
 	};
 }
 
+/**
+ * Middleware declared for a wiki, falling back to the top-level list.
+ * Undefined when neither is configured.
+ *
+ * @param {string} key Key of the wiki in the configuration
+ * @return {MiddlewareConfig[]|undefined}
+ */
+function getMiddlewareConfig( key: string ): DeepReadonly<MiddlewareConfig[]> | undefined {
+	return ( config.wikis[ key ]?.middleware ?? config.middleware ) as
+		DeepReadonly<MiddlewareConfig[]> | undefined;
+}
+
+/**
+ * Request settings of a wiki, over the top-level ones.
+ *
+ * @param {string} key Key of the wiki in the configuration
+ * @return {RequestsConfig}
+ */
+function getRequestsConfig( key: string ): DeepReadonly<RequestsConfig> {
+	return { ...config.requests, ...config.wikis[ key ]?.requests };
+}
+
+function getCacheConfig(): DeepReadonly<CacheConfig> {
+	return config.cache ?? {};
+}
+
+function getDefaultKey(): string {
+	return config.defaultWiki;
+}
+
+function getApiKeys(): DeepReadonly<ApiKeyConfig[]> {
+	return ( config.apiKeys ?? [] ) as DeepReadonly<ApiKeyConfig[]>;
+}
+
+function getProfiles(): DeepReadonly<Record<string, ProfileConfig>> {
+	return ( config.profiles ?? {} ) as DeepReadonly<Record<string, ProfileConfig>>;
+}
+
+/**
+ * Profile configured for sessions of a transport, if any.
+ *
+ * @param {TransportType} transport Transport of the session
+ * @return {string|undefined}
+ */
+function getTransportProfile( transport: TransportType ): string | undefined {
+	return typeof config.profile === 'object' ? config.profile[ transport ] : config.profile;
+}
+
 function setCurrent( key: string ): void {
 	if ( !config.wikis[ key ] ) {
 		throw new Error( `Wiki "${ key }" not found in config.json` );
 	}
-	currentWikiKey = key;
+	getSession().wikiKey = key;
 }
 
 function reset(): void {
 	if ( config.wikis[ config.defaultWiki ] ) {
-		currentWikiKey = config.defaultWiki;
+		getSession().wikiKey = undefined;
 	} else {
 		throw new Error( `Default wiki "${ config.defaultWiki }" not found in config.json` );
 	}
@@ -70,7 +263,16 @@ export const wikiService = {
 	add,
 	remove,
 	getCurrent,
+	getMiddlewareConfig,
+	getRequestsConfig,
+	getCacheConfig,
+	getDefaultKey,
+	getApiKeys,
+	getProfiles,
+	getTransportProfile,
 	setCurrent,
 	sanitize,
-	reset
+	reset,
+	watch,
+	onReload
 };
@@ -0,0 +1,759 @@
+/**
+ * A small wikitext tokenizer.
+ *
+ * It does not render anything. It splits a page into block-level nodes
+ * (prose, list items, templates, tables, tags, comments, ...) and knows
+ * enough about inline markup to find where templates, links, tags and
+ * comments end, so callers can rewrite prose without corrupting markup.
+ */
+
+export type WikitextBlockType =
+	'blank' |
+	'heading' |
+	'paragraph' |
+	'listItem' |
+	'template' |
+	'table' |
+	'tag' |
+	'comment' |
+	'category' |
+	'behaviorSwitch' |
+	'redirect' |
+	'rule' |
+	'preformatted';
+
+export interface WikitextBlock {
+	type: WikitextBlockType;
+	/**
+	 * Raw wikitext of the block, without the newline that ends it.
+	 */
+	text: string;
+	start: number;
+	end: number;
+	/**
+	 * List markers of a list item (e.g. "*" or "#:").
+	 */
+	prefix?: string;
+	/**
+	 * Text after the list markers, or the title of a heading.
+	 */
+	content?: string;
+	/**
+	 * Heading level (2 for == Heading ==).
+	 */
+	level?: number;
+	/**
+	 * Template or tag name.
+	 */
+	name?: string;
+}
+
+export interface TemplateParam {
+	/**
+	 * Parameter name, or its 1-based position for unnamed parameters.
+	 */
+	name: string;
+	value: string;
+	/**
+	 * Raw text of the parameter, without the leading pipe.
+	 */
+	raw: string;
+}
+
+export interface ParsedTemplate {
+	name: string;
+	params: TemplateParam[];
+}
+
+/**
+ * Tags whose content is not wikitext, or that form a block of their own.
+ * Prose inside them must never be wrapped.
+ */
+const BLOCK_TAGS = [
+	'gallery',
+	'pre',
+	'nowiki',
+	'source',
+	'syntaxhighlight',
+	'math',
+	'poem',
+	'timeline',
+	'graph',
+	'references',
+	'score',
+	'mapframe',
+	'templatedata',
+	'div',
+	'center',
+	'blockquote',
+	'table',
+	'includeonly',
+	'noinclude',
+	'onlyinclude'
+];
+
+/**
+ * Tags whose content may contain pipes and braces that are not markup.
+ */
+const OPAQUE_TAGS = [
+	'ref',
+	'nowiki',
+	'pre',
+	'math',
+	'source',
+	'syntaxhighlight',
+	'gallery',
+	'poem',
+	'score',
+	'timeline',
+	'graph',
+	'mapframe',
+	'templatedata',
+	'chem',
+	'ce',
+	'code'
+];
+
+/**
+ * Find the end of an HTML comment starting at `start`.
+ * Unclosed comments run to the end of the text, as in MediaWiki.
+ *
+ * @param {string} text Wikitext
+ * @param {number} start Position of the opening <!--
+ * @return {number} Position after the closing -->
+ */
+export function findCommentEnd( text: string, start: number ): number {
+	const close = text.indexOf( '-->', start + 4 );
+	return close === -1 ? text.length : close + 3;
+}
+
+/**
+ * If an opaque tag (e.g. <ref>, <nowiki>) opens at `start`, return the
+ * position after its closing tag. Returns -1 if there is no such tag.
+ *
+ * @param {string} text Wikitext
+ * @param {number} start Position to look at
+ * @param {string[]} [tags] Names of the tags to look for
+ * @return {number}
+ */
+export function findOpaqueTagEnd(
+	text: string, start: number, tags: string[] = OPAQUE_TAGS
+): number {
+	const open = text.slice( start ).match( /^<([a-z]+)(\s[^>]*)?>/i );
+	if ( !open || !tags.includes( open[ 1 ].toLowerCase() ) ) {
+		// Self-closing tags like <ref name="a" /> contain nothing opaque
+		const selfClosing = text.slice( start ).match( /^<([a-z]+)(\s[^>]*)?\/>/i );
+		if ( selfClosing && tags.includes( selfClosing[ 1 ].toLowerCase() ) ) {
+			return start + selfClosing[ 0 ].length;
+		}
+		return -1;
+	}
+
+	if ( open[ 0 ].endsWith( '/>' ) ) {
+		return start + open[ 0 ].length;
+	}
+
+	const closeTag = `</${ open[ 1 ].toLowerCase() }`;
+	const close = text.toLowerCase().indexOf( closeTag, start + open[ 0 ].length );
+	if ( close === -1 ) {
+		return text.length;
+	}
+	const closeEnd = text.indexOf( '>', close );
+	return closeEnd === -1 ? text.length : closeEnd + 1;
+}
+
+/**
+ * Skip over an inline construct that must be treated as a unit
+ * (comment, opaque tag). Returns the position after it, or -1.
+ *
+ * @param {string} text Wikitext
+ * @param {number} i Position to look at
+ * @return {number}
+ */
+function skipOpaque( text: string, i: number ): number {
+	if ( text.startsWith( '<!--', i ) ) {
+		return findCommentEnd( text, i );
+	}
+	if ( text[ i ] === '<' ) {
+		return findOpaqueTagEnd( text, i );
+	}
+	return -1;
+}
+
+/**
+ * Find the matching closing }} of a template starting at `start`.
+ * Comments and opaque tags inside the template are skipped.
+ * Returns the position after the closing }}, or the end of the text if unclosed.
+ *
+ * @param {string} text Wikitext
+ * @param {number} start Position of the opening {{
+ * @return {number}
+ */
+export function findTemplateEnd( text: string, start: number ): number {
+	let depth = 0;
+	let i = start;
+
+	while ( i < text.length ) {
+		const skipped = skipOpaque( text, i );
+		if ( skipped !== -1 ) {
+			i = skipped;
+		} else if ( text.startsWith( '{{', i ) ) {
+			depth++;
+			i += 2;
+		} else if ( text.startsWith( '}}', i ) ) {
+			depth--;
+			i += 2;
+			if ( depth === 0 ) {
+				return i;
+			}
+		} else {
+			i++;
+		}
+	}
+	return text.length;
+}
+
+/**
+ * Find the matching closing ]] of a link starting at `start`.
+ * Returns the position after it, or -1 if the link is not closed.
+ *
+ * @param {string} text Wikitext
+ * @param {number} start Position of the opening [[
+ * @return {number}
+ */
+export function findLinkEnd( text: string, start: number ): number {
+	let depth = 0;
+	let i = start;
+
+	while ( i < text.length ) {
+		const skipped = skipOpaque( text, i );
+		if ( skipped !== -1 ) {
+			i = skipped;
+		} else if ( text.startsWith( '{{', i ) ) {
+			i = findTemplateEnd( text, i );
+		} else if ( text.startsWith( '[[', i ) ) {
+			depth++;
+			i += 2;
+		} else if ( text.startsWith( ']]', i ) ) {
+			depth--;
+			i += 2;
+			if ( depth === 0 ) {
+				return i;
+			}
+		} else if ( text[ i ] === '\n' && depth === 1 && !/^\[\[\s*(File|Image):/i.test( text.slice( start ) ) ) {
+			// Plain links cannot span lines; file captions can
+			return -1;
+		} else {
+			i++;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Walk over text calling `visit` for every character outside of nested
+ * templates, links, comments and opaque tags.
+ *
+ * @param {string} text Wikitext
+ * @param {Function} visit Called with each top-level character and its position
+ */
+function walkTopLevel( text: string, visit: ( char: string, index: number ) => void ): void {
+	let i = 0;
+	while ( i < text.length ) {
+		const skipped = skipOpaque( text, i );
+		if ( skipped !== -1 ) {
+			i = skipped;
+			continue;
+		}
+		if ( text.startsWith( '{{', i ) ) {
+			i = findTemplateEnd( text, i );
+			continue;
+		}
+		if ( text.startsWith( '[[', i ) ) {
+			const linkEnd = findLinkEnd( text, i );
+			if ( linkEnd !== -1 ) {
+				i = linkEnd;
+				continue;
+			}
+		}
+		visit( text[ i ], i );
+		i++;
+	}
+}
+
+/**
+ * Split the inside of a template into its top-level parameters,
+ * ignoring pipes inside nested templates, links, comments and tags.
+ *
+ * @param {string} inner Text between the template's {{ and }}
+ * @return {string[]} The name, then each parameter as written
+ */
+export function splitTemplateParams( inner: string ): string[] {
+	const pipes: number[] = [];
+	walkTopLevel( inner, ( char, index ) => {
+		if ( char === '|' ) {
+			pipes.push( index );
+		}
+	} );
+
+	const parts: string[] = [];
+	let previous = 0;
+	for ( const pipe of pipes ) {
+		parts.push( inner.slice( previous, pipe ) );
+		previous = pipe + 1;
+	}
+	parts.push( inner.slice( previous ) );
+	return parts;
+}
+
+/**
+ * Parse a template call ({{Name|a|b=c}}) into its name and parameters.
+ *
+ * @param {string} text Template call, from {{ to }}
+ * @return {ParsedTemplate}
+ */
+export function parseTemplate( text: string ): ParsedTemplate {
+	const [ rawName, ...rawParams ] = splitTemplateParams( text.slice( 2, -2 ) );
+	let position = 0;
+
+	const params = rawParams.map( ( raw ): TemplateParam => {
+		const equals = findTopLevelChar( raw, '=' );
+		if ( equals === -1 ) {
+			position++;
+			return { name: String( position ), value: raw, raw };
+		}
+		return {
+			name: raw.slice( 0, equals ).trim(),
+			value: raw.slice( equals + 1 ).trim(),
+			raw
+		};
+	} );
+
+	return {
+		name: normalizeTemplateName( rawName ),
+		params
+	};
+}
+
+/**
+ * Normalize a template name for comparison: trims, strips comments,
+ * treats underscores as spaces and ignores the case of the first letter.
+ *
+ * @param {string} name Template name or page title
+ * @return {string}
+ */
+export function normalizeTemplateName( name: string ): string {
+	const trimmed = name.replace( /<!--[\s\S]*?-->/g, '' ).replace( /_/g, ' ' ).replace( /\s+/g, ' ' ).trim();
+	return trimmed.charAt( 0 ).toUpperCase() + trimmed.slice( 1 );
+}
+
+/**
+ * Position of the first top-level occurrence of a character, or -1.
+ *
+ * @param {string} text Wikitext
+ * @param {string} char Character to find
+ * @return {number}
+ */
+export function findTopLevelChar( text: string, char: string ): number {
+	let found = -1;
+	walkTopLevel( text, ( current, index ) => {
+		if ( found === -1 && current === char ) {
+			found = index;
+		}
+	} );
+	return found;
+}
+
+/**
+ * Escape top-level pipes with {{!}} so text can be used as a single
+ * template parameter. Pipes inside links, templates, comments and tags
+ * are already shielded by their markup and are left alone.
+ *
+ * @param {string} text Wikitext
+ * @return {string}
+ */
+export function escapeTopLevelPipes( text: string ): string {
+	const pipes: number[] = [];
+	walkTopLevel( text, ( char, index ) => {
+		if ( char === '|' ) {
+			pipes.push( index );
+		}
+	} );
+
+	let result = text;
+	for ( const pipe of pipes.reverse() ) {
+		result = `${ result.slice( 0, pipe ) }{{!}}${ result.slice( pipe + 1 ) }`;
+	}
+	return result;
+}
+
+/**
+ * Find the end of the logical line starting at `start`: the next newline
+ * that is not inside a template, link, comment or tag.
+ *
+ * @param {string} text Wikitext
+ * @param {number} start Position the line starts at
+ * @return {number} Position of the newline, or the end of the text
+ */
+export function findLineEnd( text: string, start: number ): number {
+	let i = start;
+	while ( i < text.length ) {
+		if ( text[ i ] === '\n' ) {
+			return i;
+		}
+		const skipped = skipOpaque( text, i );
+		if ( skipped !== -1 ) {
+			i = skipped;
+		} else if ( text.startsWith( '{{', i ) ) {
+			i = findTemplateEnd( text, i );
+		} else if ( text.startsWith( '[[', i ) ) {
+			const linkEnd = findLinkEnd( text, i );
+			i = linkEnd === -1 ? i + 2 : linkEnd;
+		} else {
+			i++;
+		}
+	}
+	return text.length;
+}
+
+/**
+ * Skip a run of templates and comments starting at `start`, along with
+ * the whitespace between them. Returns where the run ends.
+ *
+ * @param {string} text Wikitext
+ * @param {number} start Position the run starts at
+ * @return {number}
+ */
+function skipTemplatesAndComments( text: string, start: number ): number {
+	let i = start;
+	for ( ;; ) {
+		while ( i < text.length && ( text[ i ] === ' ' || text[ i ] === '\t' ) ) {
+			i++;
+		}
+		if ( text.startsWith( '{{', i ) ) {
+			i = findTemplateEnd( text, i );
+		} else if ( text.startsWith( '<!--', i ) ) {
+			i = findCommentEnd( text, i );
+		} else {
+			return i;
+		}
+	}
+}
+
+function restOfLineIsBlank( text: string, position: number ): boolean {
+	const newline = text.indexOf( '\n', position );
+	const rest = text.slice( position, newline === -1 ? text.length : newline );
+	return rest.trim() === '';
+}
+
+function lineEndFrom( text: string, position: number ): number {
+	const newline = text.indexOf( '\n', position );
+	return newline === -1 ? text.length : newline;
+}
+
+/**
+ * Find the end of a table starting at `start`, honouring nested tables.
+ *
+ * @param {string} text Wikitext
+ * @param {number} start Position of the opening {|
+ * @return {number} Position after the closing |}, or the end of the text
+ */
+function findTableEnd( text: string, start: number ): number {
+	let depth = 0;
+	let i = start;
+	while ( i < text.length ) {
+		const lineEnd = lineEndFrom( text, i );
+		const line = text.slice( i, lineEnd ).trim();
+		if ( line.startsWith( '{|' ) ) {
+			depth++;
+		} else if ( line.startsWith( '|}' ) ) {
+			depth--;
+			if ( depth === 0 ) {
+				return lineEnd;
+			}
+		}
+		i = lineEnd + 1;
+	}
+	return text.length;
+}
+
+function getBlockTagEnd( text: string, start: number, name: string ): number {
+	const opaqueEnd = findOpaqueTagEnd( text, start, [ name ] );
+	return lineEndFrom( text, opaqueEnd === -1 ? start : opaqueEnd );
+}
+
+/**
+ * Classify the block starting at `start` when it is not a paragraph.
+ * Returns null for prose.
+ *
+ * @param {string} text Wikitext
+ * @param {number} start Position the block starts at
+ * @return {WikitextBlock|null}
+ */
+function matchSpecialBlock( text: string, start: number ): WikitextBlock | null {
+	const lineEnd = lineEndFrom( text, start );
+	const line = text.slice( start, lineEnd );
+	const trimmed = line.trim();
+	const indent = line.length - line.trimStart().length;
+	const block = (
+		type: WikitextBlockType, end: number, extra: Partial<WikitextBlock> = {}
+	): WikitextBlock => ( {
+		type,
+		text: text.slice( start, end ),
+		start,
+		end,
+		...extra
+	} );
+
+	if ( trimmed === '' ) {
+		return block( 'blank', lineEnd );
+	}
+
+	if ( trimmed.startsWith( '<!--' ) ) {
+		const commentEnd = findCommentEnd( text, start + indent );
+		if ( restOfLineIsBlank( text, commentEnd ) ) {
+			return block( 'comment', lineEndFrom( text, commentEnd ) );
+		}
+	}
+
+	const heading = line.match( /^(={1,6})(.+?)\1\s*(<!--.*?-->\s*)*$/ );
+	if ( heading ) {
+		return block( 'heading', lineEnd, { level: heading[ 1 ].length, content: heading[ 2 ].trim() } );
+	}
+
+	if ( /^#redirect\s*:?\s*\[\[/i.test( trimmed ) ) {
+		return block( 'redirect', lineEnd );
+	}
+
+	if ( trimmed.startsWith( '{|' ) ) {
+		return block( 'table', findTableEnd( text, start ) );
+	}
+
+	if ( trimmed.startsWith( '|' ) || trimmed.startsWith( '!' ) ) {
+		// Stray table rows outside of a table (e.g. built from templates)
+		return block( 'table', lineEnd );
+	}
+
+	if ( /^-{4,}/.test( trimmed ) ) {
+		return block( 'rule', lineEnd );
+	}
+
+	if ( /^(__[A-Z]+__\s*)+$/.test( trimmed ) ) {
+		return block( 'behaviorSwitch', lineEnd );
+	}
+
+	if ( /^(\[\[\s*Category\s*:[^\]]*\]\]\s*)+$/i.test( trimmed ) ) {
+		return block( 'category', lineEnd );
+	}
+
+	if ( trimmed.startsWith( '{{' ) ) {
+		// A template (or several) occupying the whole logical line is a block of its own.
+		// Anything after it on the same line makes it an inline template in prose.
+		const runEnd = skipTemplatesAndComments( text, start + indent );
+		if ( restOfLineIsBlank( text, runEnd ) ) {
+			const templateStart = start + indent;
+			const templateEnd = findTemplateEnd( text, templateStart );
+			return block( 'template', lineEndFrom( text, runEnd ), {
+				name: parseTemplate( text.slice( templateStart, templateEnd ) ).name
+			} );
+		}
+	}
+
+	const tag = trimmed.match( /^<\/?([a-z]+)[\s/>]/i );
+	if ( tag && BLOCK_TAGS.includes( tag[ 1 ].toLowerCase() ) ) {
+		const name = tag[ 1 ].toLowerCase();
+		return block( 'tag', getBlockTagEnd( text, start + indent, name ), { name } );
+	}
+
+	const list = line.match( /^([*#:;]+)\s*/ );
+	if ( list ) {
+		const end = findLineEnd( text, start );
+		return block( 'listItem', end, {
+			prefix: list[ 1 ],
+			content: text.slice( start + list[ 0 ].length, end )
+		} );
+	}
+
+	if ( indent > 0 && line[ 0 ] === ' ' ) {
+		// A leading space renders as preformatted text
+		return block( 'preformatted', lineEnd );
+	}
+
+	return null;
+}
+
+/**
+ * Split wikitext into block-level nodes.
+ *
+ * Blocks are separated by exactly one newline, so joining the text of all
+ * blocks with "\n" gives back the original source.
+ *
+ * @param {string} source Wikitext
+ * @return {WikitextBlock[]}
+ */
+export function parseBlocks( source: string ): WikitextBlock[] {
+	const blocks: WikitextBlock[] = [];
+	let position = 0;
+
+	while ( position <= source.length ) {
+		const special = matchSpecialBlock( source, position );
+		if ( special ) {
+			blocks.push( special );
+			position = special.end + 1;
+			continue;
+		}
+
+		// Prose: consecutive lines until a blank line or another kind of block
+		const start = position;
+		let end = findLineEnd( source, position );
+		while ( end < source.length ) {
+			const next = end + 1;
+			if ( next >= source.length || matchSpecialBlock( source, next ) ) {
+				break;
+			}
+			end = findLineEnd( source, next );
+		}
+
+		blocks.push( {
+			type: 'paragraph',
+			text: source.slice( start, end ),
+			start,
+			end
+		} );
+		position = end + 1;
+	}
+
+	return blocks;
+}
+
+/**
+ * Strip everything that is not readable prose: templates, comments, tags,
+ * file and category links. Used to decide whether text contains a claim.
+ *
+ * @param {string} text Wikitext
+ * @return {string}
+ */
+export function stripNonProse( text: string ): string {
+	let result = '';
+	let i = 0;
+	while ( i < text.length ) {
+		if ( text.startsWith( '<!--', i ) ) {
+			i = findCommentEnd( text, i );
+		} else if ( text[ i ] === '<' && findOpaqueTagEnd( text, i ) !== -1 ) {
+			i = findOpaqueTagEnd( text, i );
+		} else if ( text.startsWith( '{{', i ) ) {
+			i = findTemplateEnd( text, i );
+		} else if ( /^\[\[\s*(File|Image|Category)\s*:/i.test( text.slice( i, i + 20 ) ) ) {
+			const linkEnd = findLinkEnd( text, i );
+			i = linkEnd === -1 ? i + 2 : linkEnd;
+		} else {
+			result += text[ i ];
+			i++;
+		}
+	}
+	return result.trim();
+}
+
+/**
+ * Abbreviations that end in a period without ending a sentence.
+ */
+const ABBREVIATIONS = [ 'mr', 'mrs', 'ms', 'dr', 'st', 'jr', 'sr', 'vs', 'etc', 'e.g', 'i.e', 'approx', 'no', 'vol', 'feat', 'ft' ];
+
+/**
+ * Split prose into sentences. Punctuation inside templates, links,
+ * comments and tags never ends a sentence, so markup stays intact.
+ * The returned segments concatenate back to the original text; the
+ * whitespace between sentences is kept at the start of the next one.
+ *
+ * @param {string} text Prose
+ * @return {string[]}
+ */
+export function splitSentences( text: string ): string[] {
+	const boundaries: number[] = [];
+	walkTopLevel( text, ( char, index ) => {
+		if ( !'.!?'.includes( char ) || !/\s/.test( text[ index + 1 ] ?? '' ) ) {
+			return;
+		}
+		const word = text.slice( 0, index ).match( /([\p{L}.]+)$/u )?.[ 1 ] ?? '';
+		if ( char === '.' && ( word.length === 1 || ABBREVIATIONS.includes( word.toLowerCase() ) ) ) {
+			// Initials and abbreviations
+			return;
+		}
+		boundaries.push( index + 1 );
+	} );
+
+	const sentences: string[] = [];
+	let previous = 0;
+	for ( const boundary of boundaries ) {
+		sentences.push( text.slice( previous, boundary ) );
+		previous = boundary;
+	}
+	if ( previous < text.length || sentences.length === 0 ) {
+		sentences.push( text.slice( previous ) );
+	}
+	return sentences;
+}
+
+/**
+ * Point links to one page at another, e.g. after a page move.
+ * Titles match the way MediaWiki compares them: spaces and underscores
+ * are the same and the first letter is case-insensitive. Anchors are kept.
+ * With keepText, a link without a label gets the old title as its label,
+ * so the rendered text doesn't change; categorization and file links, whose
+ * text after the pipe is a sort key or caption, never get one.
+ * Links inside comments and opaque tags are left alone.
+ *
+ * @param {string} text Wikitext
+ * @param {string} fromTitle Title the links point at
+ * @param {string} toTitle Title to point them at instead
+ * @param {boolean} [keepText=true] Whether links keep showing the old title
+ * @return {{text: string, count: number}} The new text and the number of links changed
+ */
+export function retargetLinks(
+	text: string, fromTitle: string, toTitle: string, keepText = true
+): { text: string; count: number } {
+	const from = normalizeTemplateName( fromTitle );
+	let result = '';
+	let count = 0;
+	let i = 0;
+
+	while ( i < text.length ) {
+		const skipped = skipOpaque( text, i );
+		if ( skipped !== -1 ) {
+			result += text.slice( i, skipped );
+			i = skipped;
+			continue;
+		}
+		if ( !text.startsWith( '[[', i ) ) {
+			result += text[ i ];
+			i++;
+			continue;
+		}
+
+		const linkEnd = findLinkEnd( text, i );
+		const inner = linkEnd === -1 ? '' : text.slice( i + 2, linkEnd - 2 );
+		const pipe = findTopLevelChar( inner, '|' );
+		const target = pipe === -1 ? inner : inner.slice( 0, pipe );
+		const match = /^(\s*:?)([^#]*)(#.*)?$/s.exec( target );
+		if ( !match || normalizeTemplateName( match[ 2 ] ) !== from ) {
+			// Not a link to the page; links in a file caption are still visited
+			result += '[[';
+			i += 2;
+			continue;
+		}
+
+		const [ , prefix, , anchor = '' ] = match;
+		const embeds = !prefix.includes( ':' ) && /^\s*(File|Image|Category)\s*:/i.test( match[ 2 ] );
+		let label = pipe === -1 ? undefined : inner.slice( pipe + 1 );
+		if ( keepText && !embeds && label === undefined ) {
+			label = target.replace( /^\s*:/, '' ).trim();
+		} else if ( keepText && !embeds && label?.trim() === '' ) {
+			// The pipe trick shows the title without namespace and disambiguator
+			label = match[ 2 ].replace( /^[^:]*:/, '' ).replace( /\s*(\([^)]*\)|,.*)$/, '' ).trim();
+		}
+		result += `[[${ prefix }${ toTitle }${ anchor }${ label === undefined ? '' : `|${ label }` }]]`;
+		count++;
+		i = linkEnd;
+	}
+	return { text: result, count };
+}
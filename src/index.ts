@@ -1,6 +1,14 @@
 #!/usr/bin/env node
 
+import { ConfigError } from './common/config.js';
+
 async function main(): Promise<void> {
+	if ( process.argv.includes( '--check-config' ) ) {
+		const { checkConfig } = await import( './checkConfig.js' );
+		process.exitCode = await checkConfig() ? 0 : 1;
+		return;
+	}
+
 	const transportType = process.env.MCP_TRANSPORT || 'stdio';
 	if ( transportType === 'http' ) {
 		await import( './streamableHttp.js' );
@@ -10,6 +18,12 @@ async function main(): Promise<void> {
 }
 
 main().catch( ( error ) => {
+	if ( error instanceof ConfigError ) {
+		// A mistake in the config, not in the server: the message says it all
+		console.error( `Configuration error: ${ error.message }` );
+		process.exitCode = 1;
+		return;
+	}
 	console.error( 'Fatal error in main():', error );
 	throw error;
 } );
@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import type { Middleware, WriteContext, Halt } from './types.js';
+import { isEditContext, reject } from './types.js';
+import { fetchRevisionSource } from '../common/utils.js';
+
+const shrinkGuardOptionsSchema = z.object( {
+	maxRemovedRatio: z.number().min( 0 ).max( 1 ).default( 0.5 )
+} );
+
+/**
+ * Tools whose edits replace existing content, and can remove most of it.
+ */
+const SHRINK_GUARDED_TOOLS = new Set<string>( [
+	'update-page',
+	'update-section',
+	'approve-proposal',
+	'reject-proposal'
+] );
+
+/**
+ * Guard against updates that remove more than maxRemovedRatio of a page
+ * (or of a section, for update-section), measured in characters against
+ * the revision the edit is based on. Resolving a proposal counts as an
+ * update of the whole page.
+ *
+ * @param {Object} options Options of the middleware, from the config
+ * @return {Middleware}
+ */
+export function createShrinkGuardMiddleware(
+	options: Record<string, unknown>
+): Middleware {
+	const { maxRemovedRatio } = shrinkGuardOptionsSchema.parse( options );
+
+	return {
+		name: 'shrink-guard',
+
+		async onInput( context: WriteContext ): Promise<WriteContext | Halt> {
+			if ( !SHRINK_GUARDED_TOOLS.has( context.tool ) || !( 'latestId' in context ) || !context.latestId ) {
+				return context;
+			}
+
+			const section = isEditContext( context ) ? context.section : undefined;
+			const previousSource = await fetchRevisionSource( context.latestId, section );
+			if ( !previousSource ) {
+				console.error( `[shrink-guard] ${ context.title }: could not fetch revision ${ context.latestId }, not checking` );
+				return context;
+			}
+
+			const removed = 1 - context.source.length / previousSource.length;
+			if ( removed > maxRemovedRatio ) {
+				const target = section === undefined ? context.title : `section ${ section } of ${ context.title }`;
+				return reject(
+					'page-shrink',
+					`This edit would remove ${ Math.round( removed * 100 ) }% of ${ target } (${ previousSource.length } to ${ context.source.length } characters), more than the ${ Math.round( maxRemovedRatio * 100 ) }% allowed. Check that the full page content was submitted.`
+				);
+			}
+			return context;
+		}
+	};
+}
+
+const protectedTitlesOptionsSchema = z.object( {
+	patterns: z.array( z.string() ).min( 1 ),
+	tools: z.array( z.string() ).optional()
+} );
+
+/**
+ * Turn a title pattern with * wildcards into a regular expression.
+ * Underscores and spaces are interchangeable, as in MediaWiki titles.
+ *
+ * @param {string} pattern Title pattern
+ * @return {RegExp}
+ */
+function titlePatternToRegExp( pattern: string ): RegExp {
+	const escaped = pattern.replace( /_/g, ' ' )
+		.split( '*' )
+		.map( ( part ) => part.replace( /[.+?^${}()|[\]\\]/g, '\\$&' ) )
+		.join( '.*' );
+	return new RegExp( `^${ escaped }$` );
+}
+
+/**
+ * Refuse write operations on titles matching any of the configured patterns,
+ * e.g. "PickiPedia:*". Moves are also refused when the target matches.
+ * With tools set, only those operations are refused.
+ *
+ * @param {Object} options Options of the middleware, from the config
+ * @return {Middleware}
+ */
+export function createProtectedTitlesMiddleware( options: Record<string, unknown> ): Middleware {
+	const { patterns, tools } = protectedTitlesOptionsSchema.parse( options );
+	const regExps = patterns.map( titlePatternToRegExp );
+	const isProtected = ( title: string ): boolean => regExps.some(
+		( regExp ) => regExp.test( title.replace( /_/g, ' ' ) )
+	);
+
+	return {
+		name: 'protected-titles',
+
+		async onInput( context: WriteContext ): Promise<WriteContext | Halt> {
+			if ( tools && !tools.includes( context.tool ) ) {
+				return context;
+			}
+
+			const titles = context.tool === 'move-page' ? [ context.title, context.target ] : [ context.title ];
+			const protectedTitle = titles.find( isProtected );
+			if ( protectedTitle ) {
+				return reject(
+					'protected-title',
+					`${ protectedTitle } is protected on this server and cannot be changed with ${ context.tool }.`
+				);
+			}
+			return context;
+		}
+	};
+}
@@ -1,41 +1,156 @@
-import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import type { Middleware, EditContext } from './types.js';
-import { verificationMiddleware } from './verification.js';
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import type {
+	Halt,
+	HaltedBy,
+	HandlerFailure,
+	Middleware,
+	MiddlewareTrace,
+	WriteContext
+} from './types.js';
+import { isHalt } from './types.js';
+import { wikiService } from '../common/wikiService.js';
+import type { MiddlewareConfig } from '../common/config.js';
+import { errorResult } from '../common/errors.js';
+import { DEFAULT_MIDDLEWARE, loadMiddleware } from './registry.js';
 
 /**
- * Middleware pipeline registry.
+ * Middleware pipeline.
  *
- * Middlewares are executed in order for onInput (first to last),
- * and in reverse order for onOutput (last to first) - like an onion.
+ * The middlewares for each wiki are declared in config and loaded the first
+ * time that wiki is edited. They are executed in order for onInput (first to
+ * last), and in reverse order for onOutput (last to first) - like an onion.
  */
 class MiddlewarePipeline {
-	private middlewares: Middleware[] = [];
+	private middlewaresByWiki = new Map<string, Promise<Middleware[]>>();
 
-	register( middleware: Middleware ): void {
-		this.middlewares.push( middleware );
-		console.error( `[middleware] Registered: ${ middleware.name }` );
+	public constructor() {
+		// Middleware config may have changed; load it again on the next edit
+		wikiService.onReload( () => this.middlewaresByWiki.clear() );
 	}
 
 	/**
-	 * Run all onInput transforms in order.
+	 * Get the middlewares for the current wiki, loading them if needed.
+	 *
+	 * @return {Promise<Middleware[]>}
 	 */
-	async processInput( context: EditContext ): Promise<EditContext> {
+	private async getMiddlewares(): Promise<Middleware[]> {
+		const { key } = wikiService.getCurrent();
+		let middlewares = this.middlewaresByWiki.get( key );
+		if ( !middlewares ) {
+			const configs = ( wikiService.getMiddlewareConfig( key ) ??
+				DEFAULT_MIDDLEWARE ) as MiddlewareConfig[];
+			middlewares = Promise.all( configs.map( loadMiddleware ) );
+			this.middlewaresByWiki.set( key, middlewares );
+			try {
+				const loaded = await middlewares;
+				console.error( `[middleware] Loaded for ${ key }: ${ loaded.map( ( mw ) => mw.name ).join( ', ' ) || 'none' }` );
+			} catch ( error ) {
+				// Don't keep a failed load around, so the next edit reports it again
+				this.middlewaresByWiki.delete( key );
+				throw error;
+			}
+		}
+		return middlewares;
+	}
+
+	/**
+	 * Run onInput transforms in order until one halts the operation.
+	 * `completed` is the number of middlewares before the halting one,
+	 * whose onOutput still runs.
+	 *
+	 * @param {WriteContext} context Context of the operation
+	 * @return {Promise<Object>} The transformed context, the trace, and the halt if any
+	 */
+	private async runInput<T extends WriteContext>( context: T ): Promise<{
+		context: T;
+		trace: MiddlewareTrace<T>[];
+		halted?: HaltedBy;
+		completed: number;
+	}> {
+		const middlewares = await this.getMiddlewares();
+		const trace: MiddlewareTrace<T>[] = [];
 		let current = context;
-		for ( const mw of this.middlewares ) {
-			if ( mw.onInput ) {
-				current = await mw.onInput( current );
+		for ( let i = 0; i < middlewares.length; i++ ) {
+			const mw = middlewares[ i ];
+			if ( !mw.onInput ) {
+				continue;
+			}
+			const outcome = await mw.onInput( current );
+			if ( isHalt( outcome ) ) {
+				console.error( `[middleware] ${ mw.name } halted ${ context.tool } on ${ context.title }${ outcome.halt === 'reject' ? `: ${ outcome.code }` : '' }` );
+				const halted = { middleware: mw.name, halt: outcome };
+				return { context: current, trace, halted, completed: i };
+			}
+			trace.push( { name: mw.name, before: current, after: outcome as T } );
+			current = outcome as T;
+		}
+		return { context: current, trace, completed: middlewares.length };
+	}
+
+	/**
+	 * Run all onInput transforms in order.
+	 * Returns the halt instead if a middleware stops the operation.
+	 *
+	 * @param {WriteContext} context Context of the operation
+	 * @return {Promise<WriteContext|Halt>}
+	 */
+	async processInput<T extends WriteContext>( context: T ): Promise<T | Halt> {
+		const { context: current, halted } = await this.runInput( context );
+		return halted ? halted.halt : current;
+	}
+
+	/**
+	 * Run all onInput transforms in order, recording what each one did.
+	 * Used to preview an edit without saving it.
+	 *
+	 * @param {WriteContext} context Context of the operation
+	 * @return {Promise<Object>} The transformed context, the trace, and the halt if any
+	 */
+	public async traceInput<T extends WriteContext>(
+		context: T
+	): Promise<{ context: T; trace: MiddlewareTrace<T>[]; halted?: HaltedBy }> {
+		const { context: current, trace, halted } = await this.runInput( context );
+		return { context: current, trace, halted };
+	}
+
+	/**
+	 * Run onError handlers in reverse order on a failed operation.
+	 * Each one sees the result left by the previous.
+	 *
+	 * @param {WriteContext} context Context of the operation
+	 * @param {HandlerFailure} failure How the handler failed
+	 * @return {Promise<CallToolResult>}
+	 */
+	public async processError(
+		context: WriteContext, failure: HandlerFailure
+	): Promise<CallToolResult> {
+		let current = failure.result;
+		const middlewares = await this.getMiddlewares();
+		for ( let i = middlewares.length - 1; i >= 0; i-- ) {
+			const mw = middlewares[ i ];
+			if ( mw.onError ) {
+				current = await mw.onError( context, { ...failure, result: current } ) ?? current;
 			}
 		}
 		return current;
 	}
 
 	/**
-	 * Run all onOutput transforms in reverse order.
+	 * Run onOutput transforms in reverse order, for the first `count`
+	 * middlewares (all of them by default).
+	 *
+	 * @param {WriteContext} context Context of the operation
+	 * @param {CallToolResult} result Result of the handler
+	 * @param {number} [count] Number of middlewares to run, from the first
+	 * @return {Promise<CallToolResult>}
 	 */
-	async processOutput( context: EditContext, result: CallToolResult ): Promise<CallToolResult> {
+	async processOutput(
+		context: WriteContext, result: CallToolResult, count?: number
+	): Promise<CallToolResult> {
 		let current = result;
-		for ( let i = this.middlewares.length - 1; i >= 0; i-- ) {
-			const mw = this.middlewares[i];
+		const middlewares = await this.getMiddlewares();
+		for ( let i = ( count ?? middlewares.length ) - 1; i >= 0; i-- ) {
+			const mw = middlewares[ i ];
 			if ( mw.onOutput ) {
 				current = await mw.onOutput( context, current );
 			}
@@ -45,21 +160,79 @@ class MiddlewarePipeline {
 
 	/**
 	 * Convenience method to wrap a tool handler with middleware.
+	 *
+	 * @param {WriteContext} context Context of the operation
+	 * @param {Function} handler Tool handler, given the transformed context
+	 * @return {Promise<CallToolResult>}
 	 */
-	async wrapHandler<T extends CallToolResult>(
-		context: EditContext,
-		handler: ( ctx: EditContext ) => Promise<T>
+	async wrapHandler<C extends WriteContext, T extends CallToolResult>(
+		context: C,
+		handler: ( ctx: C ) => Promise<T>
 	): Promise<CallToolResult> {
-		const transformedContext = await this.processInput( context );
-		const result = await handler( transformedContext );
+		const { context: transformedContext, halted, completed } = await this.runInput( context );
+		if ( halted ) {
+			const haltResult = getHaltResult( halted );
+			return await this.processOutput( transformedContext, haltResult, completed );
+		}
+
+		let result: CallToolResult;
+		try {
+			result = await handler( transformedContext );
+			if ( result.isError ) {
+				result = await this.processError( transformedContext, { result } );
+			}
+		} catch ( error ) {
+			result = await this.processError( transformedContext, {
+				result: errorResult( `Failed to run ${ context.tool }`, error ),
+				error
+			} );
+		}
 		return await this.processOutput( transformedContext, result );
 	}
 }
 
+/**
+ * Build the tool result for an operation stopped by a middleware.
+ *
+ * @param {HaltedBy} haltedBy The middleware that stopped the operation, and how
+ * @return {CallToolResult}
+ */
+export function getHaltResult( haltedBy: HaltedBy ): CallToolResult {
+	const { middleware, halt } = haltedBy;
+	if ( halt.halt === 'respond' ) {
+		return halt.result;
+	}
+	return {
+		content: [
+			{ type: 'text', text: `Rejected by ${ middleware } (${ halt.code }): ${ halt.message }` } as TextContent
+		],
+		isError: true,
+		_meta: { rejection: { middleware, code: halt.code, message: halt.message } }
+	};
+}
+
 // Global pipeline instance
 export const pipeline = new MiddlewarePipeline();
 
-// Register default middlewares
-pipeline.register( verificationMiddleware );
-
-export type { Middleware, EditContext };
+export type {
+	Halt,
+	HaltedBy,
+	HandlerFailure,
+	Middleware,
+	MiddlewareFactory,
+	MiddlewareTrace,
+	Rejection,
+	ShortCircuit,
+	WriteContext,
+	EditContext,
+	DeleteContext,
+	UndeleteContext,
+	UploadFileContext,
+	UploadFileFromUrlContext,
+	MoveContext,
+	RevertContext,
+	UndoContext,
+	RollbackContext,
+	ProposalContext
+} from './types.js';
+export { isHalt, reject, respond } from './types.js';
@@ -0,0 +1,93 @@
+import * as path from 'path';
+import { z } from 'zod';
+import { pathToFileURL } from 'url';
+import type { Middleware, MiddlewareFactory } from './types.js';
+import { configPath } from '../common/config.js';
+import type { MiddlewareConfig } from '../common/config.js';
+import { verificationMiddleware } from './verification.js';
+import { createProtectedTitlesMiddleware, createShrinkGuardMiddleware } from './guards.js';
+
+/**
+ * Middleware that ships with the server, by the name used in config.
+ */
+const builtinMiddleware: Record<string, MiddlewareFactory> = {
+	verification: () => verificationMiddleware,
+	'shrink-guard': createShrinkGuardMiddleware,
+	'protected-titles': createProtectedTitlesMiddleware
+};
+
+/**
+ * Middleware run when the config doesn't declare any.
+ */
+export const DEFAULT_MIDDLEWARE: MiddlewareConfig[] = [ { name: 'verification' } ];
+
+export class MiddlewareLoadError extends Error {
+	public constructor( message: string ) {
+		super( message );
+		this.name = 'MiddlewareLoadError';
+	}
+}
+
+function isMiddleware( value: unknown ): value is Middleware {
+	return typeof value === 'object' && value !== null &&
+		typeof ( value as Middleware ).name === 'string';
+}
+
+/**
+ * Import an external middleware module. Its default export is either the
+ * middleware itself or a factory taking the configured options.
+ *
+ * @param {MiddlewareConfig} config Config entry of the middleware
+ * @param {string} modulePath Path of the module, relative to the config file
+ * @return {Promise<Middleware>}
+ */
+async function importMiddleware(
+	config: MiddlewareConfig, modulePath: string
+): Promise<Middleware> {
+	const resolved = path.resolve( path.dirname( configPath ), modulePath );
+	let exported: unknown;
+	try {
+		const module = await import( pathToFileURL( resolved ).href ) as { default?: unknown };
+		exported = module.default;
+	} catch ( error ) {
+		throw new MiddlewareLoadError(
+			`Failed to load middleware "${ config.name }" from ${ resolved }: ${ ( error as Error ).message }`
+		);
+	}
+
+	const middleware = typeof exported === 'function' ?
+		await ( exported as MiddlewareFactory )( config.options ?? {} ) :
+		exported;
+	if ( !isMiddleware( middleware ) ) {
+		throw new MiddlewareLoadError(
+			`Middleware module ${ resolved } must export a middleware or a function creating one as its default export`
+		);
+	}
+	return middleware;
+}
+
+/**
+ * Create the middleware described by a config entry.
+ *
+ * @param {MiddlewareConfig} config Config entry of the middleware
+ * @return {Promise<Middleware>}
+ */
+export async function loadMiddleware( config: MiddlewareConfig ): Promise<Middleware> {
+	if ( config.path ) {
+		return importMiddleware( config, config.path );
+	}
+
+	const factory = builtinMiddleware[ config.name ];
+	if ( !factory ) {
+		throw new MiddlewareLoadError(
+			`Unknown middleware "${ config.name }". Built-in middleware: ${ Object.keys( builtinMiddleware ).join( ', ' ) }. Set "path" to load an external module.`
+		);
+	}
+	try {
+		return await factory( config.options ?? {} );
+	} catch ( error ) {
+		throw new MiddlewareLoadError(
+			`Invalid options for middleware "${ config.name }": ${ error instanceof z.ZodError ? z.prettifyError( error ) : ( error as Error ).message }`
+		);
+	}
+}
@@ -1,16 +1,214 @@
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 
 /**
- * Context for page edit operations (create/update).
- * Passed through the middleware pipeline.
+ * Fields shared by every write operation.
  */
-export interface EditContext {
-	tool: 'create-page' | 'update-page';
+interface BaseWriteContext {
 	title: string;
-	source: string;
 	comment?: string;
+	/**
+	 * Data a middleware passes from onInput to its onOutput, keyed by middleware name.
+	 */
+	state?: Record<string, unknown>;
+}
+
+/**
+ * Context for page edit operations (create/update, of a page or a section).
+ * Passed through the middleware pipeline.
+ */
+export interface EditContext extends BaseWriteContext {
+	tool: 'create-page' | 'update-page' | 'update-section' | 'append-section';
+	/**
+	 * For section tools, the section's new source or the text appended to it.
+	 */
+	source: string;
 	contentModel?: string;
 	latestId?: number;  // For updates
+	/**
+	 * Index of the section the source replaces or is appended to (0 for the
+	 * lead). Appending without a section adds to the end of the page.
+	 */
+	section?: number;
+	/**
+	 * Heading of a new section the appended source starts.
+	 */
+	sectionTitle?: string;
+}
+
+export interface DeleteContext extends BaseWriteContext {
+	tool: 'delete-page';
+}
+
+export interface UndeleteContext extends BaseWriteContext {
+	tool: 'undelete-page';
+}
+
+export interface UploadFileContext extends BaseWriteContext {
+	tool: 'upload-file';
+	filepath: string;
+	/**
+	 * Wikitext of the file description page.
+	 */
+	text: string;
+}
+
+export interface UploadFileFromUrlContext extends BaseWriteContext {
+	tool: 'upload-file-from-url';
+	url: string;
+	/**
+	 * Wikitext of the file description page.
+	 */
+	text: string;
+}
+
+export interface MoveContext extends BaseWriteContext {
+	tool: 'move-page';
+	/**
+	 * Title the page is moved to.
+	 */
+	target: string;
+	/**
+	 * Whether the old title is left as a redirect to the new one.
+	 */
+	leaveRedirect: boolean;
+	moveTalk: boolean;
+	moveSubpages: boolean;
+	/**
+	 * Whether redirects to the old title are pointed at the new one, so
+	 * they don't become double redirects.
+	 */
+	fixRedirects: boolean;
+	/**
+	 * Whether links to the old title on other pages are rewritten.
+	 */
+	fixLinks: boolean;
+}
+
+export interface RevertContext extends BaseWriteContext {
+	tool: 'revert-page';
+	/**
+	 * Revision of the page whose content is restored.
+	 */
+	revisionId: number;
+}
+
+export interface UndoContext extends BaseWriteContext {
+	tool: 'undo-revision';
+	/**
+	 * Revision undone, or the newest of the range undone.
+	 */
+	revisionId: number;
+	/**
+	 * Revision before the range undone. Without it, only revisionId is undone.
+	 */
+	undoAfter?: number;
+}
+
+export interface RollbackContext extends BaseWriteContext {
+	tool: 'rollback-user-edits';
+	/**
+	 * User whose consecutive edits at the top of the page history are reverted.
+	 */
+	user: string;
+}
+
+/**
+ * Context for approving or rejecting a pending claim. The source is the
+ * whole page with the claim resolved.
+ */
+export interface ProposalContext extends BaseWriteContext {
+	tool: 'approve-proposal' | 'reject-proposal';
+	/**
+	 * Claim ID returned by list-pending-proposals.
+	 */
+	claimId: string;
+	source: string;
+	latestId: number;
+}
+
+/**
+ * Context for any operation that changes the wiki, discriminated by tool.
+ * Passed through the middleware pipeline.
+ */
+export type WriteContext =
+	EditContext |
+	DeleteContext |
+	UndeleteContext |
+	UploadFileContext |
+	UploadFileFromUrlContext |
+	MoveContext |
+	RevertContext |
+	UndoContext |
+	RollbackContext |
+	ProposalContext;
+
+export function isEditContext( context: WriteContext ): context is EditContext {
+	return context.tool === 'create-page' || context.tool === 'update-page' ||
+		context.tool === 'update-section' || context.tool === 'append-section';
+}
+
+/**
+ * Returned by onInput to refuse an operation. The wiki is not called and the
+ * tool returns an error carrying the code and message.
+ */
+export interface Rejection {
+	halt: 'reject';
+	/**
+	 * Short machine-readable reason, e.g. "page-shrink".
+	 */
+	code: string;
+	message: string;
+}
+
+/**
+ * Returned by onInput to answer an operation without calling the wiki.
+ */
+export interface ShortCircuit {
+	halt: 'respond';
+	result: CallToolResult;
+}
+
+/**
+ * Stops the pipeline before the operation reaches the wiki.
+ */
+export type Halt = Rejection | ShortCircuit;
+
+export function reject( code: string, message: string ): Rejection {
+	return { halt: 'reject', code, message };
+}
+
+export function respond( result: CallToolResult ): ShortCircuit {
+	return { halt: 'respond', result };
+}
+
+export function isHalt( value: WriteContext | Halt ): value is Halt {
+	return 'halt' in value;
+}
+
+/**
+ * The context before and after one middleware's onInput, recorded
+ * when previewing an operation.
+ */
+export interface MiddlewareTrace<T extends WriteContext = WriteContext> {
+	name: string;
+	before: T;
+	after: T;
+}
+
+/**
+ * A halt, with the name of the middleware that returned it.
+ */
+export interface HaltedBy {
+	middleware: string;
+	halt: Halt;
+}
+
+/**
+ * A failed tool handler: the error result, and the error if the handler threw.
+ */
+export interface HandlerFailure {
+	result: CallToolResult;
+	error?: unknown;
 }
 
 /**
@@ -23,14 +221,36 @@ export interface Middleware {
 	name: string;
 
 	/**
-	 * Transform the edit context before sending to wiki.
+	 * Transform the write context before sending to wiki.
 	 * Return modified context, or same context if no changes.
+	 * The tool must not change.
+	 *
+	 * Return reject() to refuse the operation, or respond() to answer it
+	 * without calling the wiki. Later middlewares' onInput is then skipped,
+	 * and only earlier middlewares' onOutput runs.
 	 */
-	onInput?: ( context: EditContext ) => Promise<EditContext>;
+	onInput?: ( context: WriteContext ) => Promise<WriteContext | Halt>;
+
+	/**
+	 * Handle a failed operation: the tool handler threw or returned an error.
+	 * Return a result to replace the error result, or undefined to leave it.
+	 * Runs in reverse order, before onOutput.
+	 */
+	onError?: (
+		context: WriteContext, failure: HandlerFailure
+	) => Promise<CallToolResult | undefined>;
 
 	/**
 	 * Transform/augment the result after wiki responds.
 	 * Can add annotations, warnings, etc.
 	 */
-	onOutput?: ( context: EditContext, result: CallToolResult ) => Promise<CallToolResult>;
+	onOutput?: ( context: WriteContext, result: CallToolResult ) => Promise<CallToolResult>;
 }
+
+/**
+ * Creates a middleware from the options given in config.
+ * External middleware modules may export one as their default export.
+ */
+export type MiddlewareFactory = (
+	options: Record<string, unknown>
+) => Middleware | Promise<Middleware>;
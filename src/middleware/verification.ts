@@ -1,378 +1,674 @@
+/* eslint-disable n/no-missing-import */
 import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
-import type { Middleware, EditContext } from './types.js';
-import { makeRestGetRequest } from '../common/utils.js';
-import type { MwRestApiRevisionObject } from '../types/mwRestApi.js';
+/* eslint-enable n/no-missing-import */
+import type { Middleware, WriteContext } from './types.js';
+import { isEditContext } from './types.js';
+import { diffSequences, similarity, tokenizeWords } from '../common/diff.js';
+import { fetchRevisionSource } from '../common/utils.js';
+import {
+	escapeTopLevelPipes,
+	findTemplateEnd,
+	findTopLevelChar,
+	normalizeTemplateName,
+	parseBlocks,
+	parseTemplate,
+	splitSentences,
+	splitTemplateParams,
+	stripNonProse
+} from '../common/wikitext.js';
+import type { ParsedTemplate, WikitextBlock } from '../common/wikitext.js';
+import {
+	DEFAULT_VERIFICATION_POLICY,
+	getVerificationPolicy,
+	isExemptTitle
+} from './verificationPolicy.js';
+import type { VerificationPolicy } from './verificationPolicy.js';
 
 /**
- * Namespaces exempt from verification.
- * These contain meta/organizational/discussion content, not factual claims.
+ * Reverse pipe escaping, turning {{!}} back into literal pipes.
+ *
+ * @param {string} text Text with escaped pipes
+ * @return {string}
  */
-const EXEMPT_NAMESPACES = [
-	'Template',
-	'Talk',
-	'User',
-	'MediaWiki',
-	'Special',
-	'Module',
-	'Form',
-	'PickiPedia'  // Bot config and meta pages
-];
+export function unescapePipes( text: string ): string {
+	return text.replace( /\{\{!\}\}/g, '|' );
+}
+
+function isTemplateNamed( name: string, expected: string ): boolean {
+	return normalizeTemplateName( name ) === normalizeTemplateName( expected );
+}
 
 /**
- * Fetch the source content of a revision.
+ * Extract the proposed content from the inside of a wrapper template,
+ * skipping the by= parameter and an explicit 1= prefix.
+ *
+ * @param {string} wrapper Text between the wrapper's {{ and }}
+ * @return {string}
  */
-async function fetchRevisionSource( revisionId: number ): Promise<string | null> {
-	try {
-		const data = await makeRestGetRequest<MwRestApiRevisionObject>(
-			`/v1/revision/${ revisionId }/bare`
-		);
-		return data.source ?? null;
-	} catch ( error ) {
-		console.error( `[verification] Failed to fetch revision ${ revisionId }: ${ error }` );
-		return null;
-	}
+export function getWrappedContent( wrapper: string ): string {
+	const params = splitTemplateParams( wrapper.slice( 2, -2 ) ).slice( 1 )
+		.filter( ( param ) => !/^\s*by\s*=/.test( param ) );
+	return params.join( '|' ).replace( /^\s*1\s*=/, '' ).trim();
 }
 
 /**
- * Strip Bot_proposes wrapper from a line to get the original content.
+ * Strip Bot_proposes wrappers from text to get the original content.
  * Used for comparing old vs new content.
+ *
+ * @param {string} text Wikitext
+ * @param {string} [wrapperTemplate] Name of the wrapper template
+ * @return {string}
  */
-function stripBotProposes( text: string ): string {
-	// Match {{Bot_proposes|content|by=...}} and extract the content
-	// Handle escaped pipes ({{!}})
-	const match = text.match( /\{\{Bot_proposes\|(.+?)\|by=[^}]+\}\}/i );
-	if ( match ) {
-		// Unescape pipes
-		return match[ 1 ].replace( /\{\{!\}\}/g, '|' );
+export function stripBotProposes(
+	text: string,
+	wrapperTemplate: string = DEFAULT_VERIFICATION_POLICY.wrapperTemplate
+): string {
+	let result = '';
+	let i = 0;
+	while ( i < text.length ) {
+		if ( !text.startsWith( '{{', i ) ) {
+			result += text[ i ];
+			i++;
+			continue;
+		}
+
+		const end = findTemplateEnd( text, i );
+		const template = text.slice( i, end );
+		if ( isTemplateNamed( parseTemplate( template ).name, wrapperTemplate ) ) {
+			// Handle escaped pipes ({{!}})
+			result += unescapePipes( getWrappedContent( template ) );
+		} else {
+			result += template;
+		}
+		i = end;
 	}
-	return text;
+	return result;
+}
+
+/**
+ * Wrap content in the policy's wrapper template.
+ * Top-level pipes are escaped, and content with a top-level "=" is passed
+ * as 1= so MediaWiki does not read it as a named parameter.
+ *
+ * @param {string} text Content to wrap
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {string}
+ */
+function wrapWithBotProposes( text: string, policy: VerificationPolicy ): string {
+	const content = findTopLevelChar( text, '=' ) === -1 ?
+		escapeTopLevelPipes( text ) :
+		`1=${ escapeTopLevelPipes( text ) }`;
+	return `{{${ policy.wrapperTemplate }|${ content }|by=${ policy.proposer }}}`;
+}
+
+/**
+ * Check if text is already entirely wrapped in the policy's wrapper template.
+ *
+ * @param {string} text Wikitext
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {boolean}
+ */
+function isWrapped( text: string, policy: VerificationPolicy ): boolean {
+	const trimmed = text.trim();
+	return trimmed.startsWith( '{{' ) &&
+		findTemplateEnd( trimmed, 0 ) === trimmed.length &&
+		isTemplateNamed( parseTemplate( trimmed ).name, policy.wrapperTemplate );
 }
 
 /**
  * Normalize a line for comparison purposes.
  * Strips Bot_proposes wrappers and normalizes whitespace.
+ *
+ * @param {string} line Line of wikitext
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {string}
  */
-function normalizeLine( line: string ): string {
-	return stripBotProposes( line.trim() ).trim();
+function normalizeLine( line: string, policy: VerificationPolicy ): string {
+	return stripBotProposes( line, policy.wrapperTemplate ).replace( /\s+/g, ' ' ).trim();
 }
 
 /**
- * Build a set of normalized paragraphs from content for quick lookup.
- * Handles multi-line paragraphs by joining consecutive non-markup lines.
+ * A paragraph or list item: the blocks that carry claims and are compared
+ * between revisions.
  */
-function buildLineSet( source: string ): Set<string> {
-	const lines = source.split( '\n' );
-	const set = new Set<string>();
-	let currentParagraph: string[] = [];
-
-	const flushParagraph = () => {
-		if ( currentParagraph.length > 0 ) {
-			const text = currentParagraph.join( ' ' ).trim();
-			const normalized = normalizeLine( text );
-			if ( normalized ) {
-				set.add( normalized );
-			}
-			currentParagraph = [];
+interface ContentUnit {
+	block: WikitextBlock;
+	/**
+	 * Normalized text, without list markup or wrapper templates.
+	 */
+	normalized: string;
+}
+
+/**
+ * How a content unit relates to the previous revision.
+ * Modified units carry the normalized text of the unit they were aligned with.
+ */
+type UnitChange =
+	{ type: 'unchanged' } |
+	{ type: 'modified'; previous: string } |
+	{ type: 'new' };
+
+function getContentUnits( blocks: WikitextBlock[], policy: VerificationPolicy ): ContentUnit[] {
+	const units: ContentUnit[] = [];
+	for ( const block of blocks ) {
+		if ( block.type === 'paragraph' ) {
+			units.push( { block, normalized: normalizeLine( block.text, policy ) } );
+		} else if ( block.type === 'listItem' ) {
+			units.push( { block, normalized: normalizeLine( block.content ?? '', policy ) } );
 		}
-	};
+	}
+	return units.filter( ( unit ) => unit.normalized !== '' );
+}
 
-	for ( const line of lines ) {
-		if ( isNonWrappableLine( line ) ) {
-			flushParagraph();
-			// Don't add markup lines to the set
-		} else if ( isListItem( line ) ) {
-			flushParagraph();
-			// Add list item content
-			const match = line.trim().match( /^[*#:;]+\s*(.*)$/ );
-			if ( match && match[ 1 ] ) {
-				const normalized = normalizeLine( match[ 1 ] );
-				if ( normalized ) {
-					set.add( normalized );
+/**
+ * Align the content units of the new source with those of the previous revision.
+ *
+ * Units that match exactly, in order, are unchanged. Between two matches, each
+ * inserted unit is paired with the most similar deleted unit; if they are at
+ * least policy.similarityThreshold alike the unit was modified, otherwise it is new.
+ * A paragraph moved elsewhere on the page lands in a different gap and is new.
+ *
+ * @param {WikitextBlock[]} previousBlocks Blocks of the previous revision
+ * @param {ContentUnit[]} units Content units of the new source
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {Map<WikitextBlock, UnitChange>} The change of each unit, by block
+ */
+function classifyUnits(
+	previousBlocks: WikitextBlock[], units: ContentUnit[], policy: VerificationPolicy
+): Map<WikitextBlock, UnitChange> {
+	const previousUnits = getContentUnits( previousBlocks, policy );
+	const changes = new Map<WikitextBlock, UnitChange>();
+	let deleted: ContentUnit[] = [];
+	let inserted: ContentUnit[] = [];
+
+	const pairGap = (): void => {
+		const candidates = deleted.map( ( unit ) => tokenizeWords( unit.normalized ) );
+		for ( const unit of inserted ) {
+			const words = tokenizeWords( unit.normalized );
+			let best = -1;
+			let bestScore = 0;
+			candidates.forEach( ( candidate, index ) => {
+				const score = similarity( candidate, words );
+				if ( score > bestScore ) {
+					best = index;
+					bestScore = score;
 				}
+			} );
+
+			if ( best !== -1 && bestScore >= policy.similarityThreshold ) {
+				changes.set( unit.block, { type: 'modified', previous: deleted[ best ].normalized } );
+				// Each old unit can only be the origin of one new unit
+				candidates[ best ] = [];
+			} else {
+				changes.set( unit.block, { type: 'new' } );
 			}
+		}
+		deleted = [];
+		inserted = [];
+	};
+
+	const ops = diffSequences(
+		previousUnits.map( ( unit ) => unit.normalized ),
+		units.map( ( unit ) => unit.normalized )
+	);
+	for ( const op of ops ) {
+		if ( op.type === 'equal' ) {
+			pairGap();
+			changes.set( units[ op.newIndex ].block, { type: 'unchanged' } );
+		} else if ( op.type === 'delete' ) {
+			deleted.push( previousUnits[ op.oldIndex ] );
 		} else {
-			currentParagraph.push( line );
+			inserted.push( units[ op.newIndex ] );
 		}
 	}
+	pairGap();
 
-	flushParagraph();
-	return set;
+	return changes;
 }
 
 /**
- * Check if a page title is in an exempt namespace.
+ * Check if a line/text has already been verified (not just proposed).
+ * Verified content should not be re-wrapped.
+ *
+ * @param {string} text Wikitext
+ * @return {boolean}
  */
-function isExemptNamespace( title: string ): boolean {
-	// Check for talk pages (any namespace ending in _talk)
-	if ( /_talk:/i.test( title ) ) {
-		return true;
-	}
+function isAlreadyVerified( text: string ): boolean {
+	// Check for {{verified|...}} or {{source|...}} templates
+	return /\{\{(verified|source)\s*\|/i.test( text );
+}
 
-	// Check for explicit exempt namespaces
-	const colonIndex = title.indexOf( ':' );
-	if ( colonIndex === -1 ) {
-		// Main namespace - not exempt
-		return false;
+/**
+ * Find the status-capable template that starts the content, if any.
+ * Leading blank lines, comments and behavior switches are skipped.
+ *
+ * @param {WikitextBlock[]} blocks Blocks of the content
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {WikitextBlock|null}
+ */
+function getTemplateWithStatus(
+	blocks: WikitextBlock[], policy: VerificationPolicy
+): WikitextBlock | null {
+	const first = blocks.find(
+		( block ) => ![ 'blank', 'comment', 'behaviorSwitch' ].includes( block.type )
+	);
+	if ( !first || first.type !== 'template' || !first.name ) {
+		return null;
 	}
 
-	const namespace = title.substring( 0, colonIndex );
-	return EXEMPT_NAMESPACES.some( ns =>
-		namespace.toLowerCase() === ns.toLowerCase()
-	);
+	const name = first.name;
+	return policy.templatesWithStatus.some( ( template ) => isTemplateNamed( name, template ) ) ?
+		first :
+		null;
 }
 
 /**
- * Templates that support the status parameter.
- * When content starts with one of these, we inject status=proposed.
+ * Parameters that record the review state rather than content.
  */
-const TEMPLATES_WITH_STATUS = [
-	'Show',
-	'Venue',
-	'Scene',
-	'Artist',
-	'Song',
-	'Album'
-];
+const REVIEW_PARAMS = [ 'status', 'proposed_fields' ];
 
 /**
- * Check if content already has verification markers.
+ * Parse the template that starts a template block.
+ *
+ * @param {string} blockText Text of the block
+ * @return {ParsedTemplate}
  */
-function hasVerificationMarkers( source: string ): boolean {
-	// Check for Bot_proposes template
-	if ( /\{\{Bot_proposes/i.test( source ) ) {
-		return true;
-	}
+function parseBlockTemplate( blockText: string ): ParsedTemplate {
+	const start = blockText.indexOf( '{{' );
+	return parseTemplate( blockText.slice( start, findTemplateEnd( blockText, start ) ) );
+}
 
-	// Check for status=proposed or status=unverified
-	if ( /\|\s*status\s*=\s*(proposed|unverified)/i.test( source ) ) {
-		return true;
-	}
+/**
+ * List the content parameters that differ between two versions of a template:
+ * added, removed, or with a different value. Whitespace differences are ignored.
+ *
+ * @param {ParsedTemplate} previous Template in the previous revision
+ * @param {ParsedTemplate} current Template in the new source
+ * @return {string[]} Names of the changed parameters
+ */
+function findChangedParams( previous: ParsedTemplate, current: ParsedTemplate ): string[] {
+	const values = ( template: ParsedTemplate ): Map<string, string> => new Map(
+		template.params
+			.filter( ( param ) => !REVIEW_PARAMS.includes( param.name.toLowerCase() ) )
+			.map( ( param ) => [ param.name, param.value.replace( /\s+/g, ' ' ) ] )
+	);
+	const before = values( previous );
+	const after = values( current );
 
-	return false;
+	const changed: string[] = [];
+	for ( const [ name, value ] of after ) {
+		if ( before.get( name ) !== value ) {
+			changed.push( name );
+		}
+	}
+	for ( const name of before.keys() ) {
+		if ( !after.has( name ) ) {
+			changed.push( name );
+		}
+	}
+	return changed;
 }
 
 /**
- * Check if a line/text has already been verified (not just proposed).
- * Verified content should not be re-wrapped.
+ * Set a parameter in a list of raw template parameters, replacing its value
+ * if present or inserting it after `after` otherwise. New parameters follow
+ * the template's own layout (one parameter per line or inline).
+ *
+ * @param {string[]} params Raw parameters, changed in place
+ * @param {string} name Name of the parameter
+ * @param {string} value Value to set
+ * @param {number} after Index of the parameter to insert a new one after
  */
-function isAlreadyVerified( text: string ): boolean {
-	// Check for {{verified|...}} or {{source|...}} templates
-	return /\{\{(verified|source)\s*\|/i.test( text );
+function setRawParam( params: string[], name: string, value: string, after: number ): void {
+	const pattern = new RegExp( `^(\\s*${ name }\\s*=\\s*)([^\\n]*?)(\\s*)$` );
+	const index = params.findIndex( ( param ) => pattern.test( param ) );
+	if ( index !== -1 ) {
+		params[ index ] = params[ index ].replace( pattern, `$1${ value }$3` );
+		return;
+	}
+	params.splice( after + 1, 0, params[ after ].endsWith( '\n' ) ? `${ name }=${ value }\n` : `${ name }=${ value }` );
 }
 
 /**
- * Check if content uses a template that supports status parameter.
- * Returns the template name if found, null otherwise.
+ * Mark the template that starts a template block as proposed.
+ *
+ * Without changed fields, status=proposed is injected unless the template is
+ * already proposed or unverified. With changed fields, the status is set back
+ * to proposed and the fields are listed in proposed_fields, merged with those
+ * still awaiting review. A pending template without proposed_fields is under
+ * review as a whole, so it is left as it is.
+ *
+ * @param {string} blockText Text of the template block
+ * @param {string[]} [changedFields] Parameters changed since the previous revision
+ * @return {string} The new text of the block
  */
-function getTemplateWithStatus( source: string ): string | null {
-	for ( const template of TEMPLATES_WITH_STATUS ) {
-		// Match {{Template at start of content (with optional whitespace)
-		const regex = new RegExp( `^\\s*\\{\\{${ template }\\s*[\\n|]`, 'i' );
-		if ( regex.test( source ) ) {
-			return template;
+function injectTemplateStatus( blockText: string, changedFields?: string[] ): string {
+	const start = blockText.indexOf( '{{' );
+	const end = findTemplateEnd( blockText, start );
+	const params = splitTemplateParams( blockText.slice( start + 2, end - 2 ) );
+	const template = parseBlockTemplate( blockText );
+	const status = template.params.find( ( param ) => param.name.toLowerCase() === 'status' )?.value ?? '';
+	const pending = /^(proposed|unverified)$/i.test( status );
+	const proposedFields = template.params.find( ( param ) => param.name === 'proposed_fields' )?.value;
+
+	if ( pending && ( !changedFields || proposedFields === undefined ) ) {
+		// Already has it, don't double-inject; without proposed_fields the
+		// whole template is under review, which covers the changed fields
+		return blockText;
+	}
+
+	if ( !pending ) {
+		setRawParam( params, 'status', 'proposed', 0 );
+	}
+
+	if ( changedFields ) {
+		const fields = new Set( pending ?
+			( proposedFields ?? '' ).split( ',' ).map( ( field ) => field.trim() ).filter( Boolean ) :
+			[] );
+		for ( const field of changedFields ) {
+			fields.add( field );
 		}
+		const statusIndex = params.findIndex( ( param ) => /^\s*status\s*=/.test( param ) );
+		setRawParam( params, 'proposed_fields', [ ...fields ].join( ',' ), statusIndex );
 	}
-	return null;
+
+	return `${ blockText.slice( 0, start ) }{{${ params.join( '|' ) }}}${ blockText.slice( end ) }`;
 }
 
 /**
- * Check if a specific template already has status=proposed.
+ * Work out how to mark the status template for an update.
+ *
+ * Returns the changed fields when the template existed in the previous
+ * revision, or undefined when it is new and should be proposed as a whole.
+ * An empty list means nothing in the template changed.
+ *
+ * @param {WikitextBlock} block Status template block of the new source
+ * @param {WikitextBlock[]} previousBlocks Blocks of the previous revision
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {string[]|undefined}
  */
-function templateHasProposedStatus( source: string, template: string ): boolean {
-	// Look for the template followed eventually by |status=proposed before the closing }}
-	const regex = new RegExp(
-		`\\{\\{${ template }[^}]*\\|\\s*status\\s*=\\s*proposed`,
-		'i'
+function getTemplateChanges(
+	block: WikitextBlock, previousBlocks: WikitextBlock[], policy: VerificationPolicy
+): string[] | undefined {
+	const previous = getTemplateWithStatus( previousBlocks, policy );
+	if ( !previous?.name || !block.name || !isTemplateNamed( block.name, previous.name ) ) {
+		return undefined;
+	}
+	return findChangedParams(
+		parseBlockTemplate( previous.text ), parseBlockTemplate( block.text )
 	);
-	return regex.test( source );
 }
 
 /**
- * Inject status=proposed into a template at the start of content.
+ * Check if text contains a claim worth wrapping: readable prose that is not
+ * already wrapped or verified.
+ *
+ * @param {string} text Wikitext
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {boolean}
  */
-function injectTemplateStatus( source: string, template: string ): string {
-	// Check if this specific template already has status=proposed
-	if ( templateHasProposedStatus( source, template ) ) {
-		return source; // Already has it, don't double-inject
-	}
-	// Insert status=proposed after the template opening
-	const regex = new RegExp( `(^\\s*\\{\\{${ template }\\s*\\n)`, 'i' );
-	return source.replace( regex, `$1|status=proposed\n` );
+function isWrappable( text: string, policy: VerificationPolicy ): boolean {
+	return stripNonProse( text ) !== '' &&
+		!isWrapped( text, policy ) &&
+		!isAlreadyVerified( text );
 }
 
 /**
- * Find the end of a template block (matching closing }}).
+ * Split text into sentences, keeping each existing wrapper template as a
+ * segment of its own so already proposed claims are never wrapped again.
+ *
+ * @param {string} text Prose
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {string[]}
  */
-function findTemplateEnd( source: string, startIndex: number ): number {
-	let depth = 0;
-	let i = startIndex;
-
-	while ( i < source.length - 1 ) {
-		if ( source[ i ] === '{' && source[ i + 1 ] === '{' ) {
-			depth++;
-			i += 2;
-		} else if ( source[ i ] === '}' && source[ i + 1 ] === '}' ) {
-			depth--;
-			if ( depth === 0 ) {
-				return i + 2; // Return position after the closing }}
-			}
-			i += 2;
-		} else {
+function splitClaims( text: string, policy: VerificationPolicy ): string[] {
+	const segments: string[] = [];
+	let previous = 0;
+	let i = 0;
+	while ( i < text.length ) {
+		if ( !text.startsWith( '{{', i ) ) {
 			i++;
+			continue;
+		}
+		const end = findTemplateEnd( text, i );
+		const { name } = parseTemplate( text.slice( i, end ) );
+		if ( isTemplateNamed( name, policy.wrapperTemplate ) ) {
+			if ( i > previous ) {
+				segments.push( ...splitSentences( text.slice( previous, i ) ) );
+			}
+			segments.push( text.slice( i, end ) );
+			previous = end;
 		}
+		i = end;
 	}
-	return source.length; // Template not closed, return end of string
+	if ( previous < text.length ) {
+		segments.push( ...splitSentences( text.slice( previous ) ) );
+	}
+	return segments;
 }
 
 /**
- * Check if a line is wikitext markup that shouldn't be wrapped at all.
- * Note: List items (*, #) are handled separately - their content gets wrapped.
+ * Find which sentences of a modified unit differ from its previous text.
+ * Inserted words mark their own sentence; a deletion marks the sentence it
+ * happened in, but not a neighbour when a whole sentence was removed.
+ *
+ * @param {string[]} sentences Sentences of the unit's new text
+ * @param {string} previous Previous text of the unit
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {Set<number>} Indexes of the changed sentences
  */
-function isNonWrappableLine( line: string ): boolean {
-	const trimmed = line.trim();
-	return (
-		trimmed === '' ||
-		trimmed.startsWith( '==' ) || // Headings
-		trimmed.startsWith( '[[Category:' ) ||
-		trimmed.startsWith( '{{' ) || // Templates
-		trimmed.startsWith( '|}' ) || // Table end
-		trimmed.startsWith( '{|' ) || // Table start
-		trimmed.startsWith( '|' ) || // Table row
-		trimmed.startsWith( '!' ) // Table header
-	);
+function findChangedSentences(
+	sentences: string[], previous: string, policy: VerificationPolicy
+): Set<number> {
+	const tokens: string[] = [];
+	const sentenceOf: number[] = [];
+	sentences.forEach( ( sentence, index ) => {
+		for ( const token of tokenizeWords( normalizeLine( sentence, policy ) ) ) {
+			tokens.push( token );
+			sentenceOf.push( index );
+		}
+	} );
+
+	const changed = new Set<number>();
+	let deletedRun: string[] = [];
+	let deletedAt = 0;
+
+	const isTerminator = ( token: string | undefined ): boolean => token !== undefined && /^[.!?]$/.test( token );
+	const markDeletion = (): void => {
+		if ( deletedRun.length === 0 ) {
+			return;
+		}
+		const before = sentenceOf[ deletedAt - 1 ];
+		const after = sentenceOf[ deletedAt ];
+		const atSentenceStart = before === undefined ||
+			( before !== after && isTerminator( tokens[ deletedAt - 1 ] ) );
+
+		if ( atSentenceStart && isTerminator( deletedRun[ deletedRun.length - 1 ] ) ) {
+			// Whole sentences were removed, nothing left to propose
+		} else if ( before !== undefined && !isTerminator( tokens[ deletedAt - 1 ] ) ) {
+			changed.add( before );
+		} else if ( after !== undefined ) {
+			changed.add( after );
+		}
+		deletedRun = [];
+	};
+
+	const oldTokens = tokenizeWords( previous );
+	for ( const op of diffSequences( oldTokens, tokens ) ) {
+		if ( op.type === 'delete' ) {
+			deletedRun.push( oldTokens[ op.oldIndex ] );
+			deletedAt = op.newIndex;
+			continue;
+		}
+		markDeletion();
+		if ( op.type === 'insert' ) {
+			changed.add( sentenceOf[ op.newIndex ] );
+		}
+	}
+	markDeletion();
+
+	return changed;
 }
 
 /**
- * Check if a line is a list item (bullet or numbered).
+ * Wrap sentences of a text individually, keeping the whitespace between them
+ * outside the wrappers. Only sentences in `which` are wrapped, or all of them
+ * if it is omitted.
+ *
+ * @param {string[]} sentences Sentences of the text
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @param {Set<number>} [which] Indexes of the sentences to wrap
+ * @return {string}
  */
-function isListItem( line: string ): boolean {
-	const trimmed = line.trim();
-	return (
-		trimmed.startsWith( '*' ) ||
-		trimmed.startsWith( '#' ) ||
-		trimmed.startsWith( ':' ) ||
-		trimmed.startsWith( ';' )
-	);
+function wrapSentences(
+	sentences: string[], policy: VerificationPolicy, which?: Set<number>
+): string {
+	return sentences.map( ( sentence, index ) => {
+		if ( which && !which.has( index ) ) {
+			return sentence;
+		}
+		const [ , leading, core, trailing ] = sentence.match( /^(\s*)([\s\S]*?)(\s*)$/ ) ?? [];
+		if ( !core || !isWrappable( core, policy ) ) {
+			return sentence;
+		}
+		return `${ leading }${ wrapWithBotProposes( core, policy ) }${ trailing }`;
+	} ).join( '' );
 }
 
 /**
- * Wrap the content of a list item with Bot_proposes.
- * Preserves the list prefix (* or # etc) and wraps the rest.
- * Only wraps if the content is not in the existingLines set.
+ * Wrap the new or changed parts of a paragraph or list item's text.
+ *
+ * New text is wrapped whole, unless it already contains wrapped sentences,
+ * in which case the remaining sentences are wrapped one by one. For modified
+ * text only the sentences that changed are wrapped.
+ *
+ * @param {string} text Text of the unit
+ * @param {UnitChange} change How the unit changed
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @return {string}
  */
-function wrapListItemContent( line: string, existingLines?: Set<string> ): string {
-	const trimmed = line.trim();
-
-	// Find the list prefix (may be multiple chars like ** or **)
-	const match = trimmed.match( /^([*#:;]+)\s*(.*)$/ );
-	if ( !match ) {
-		return line;
+function wrapChangedText( text: string, change: UnitChange, policy: VerificationPolicy ): string {
+	if ( change.type === 'unchanged' || !isWrappable( text, policy ) ) {
+		return text;
 	}
 
-	const prefix = match[ 1 ];
-	const content = match[ 2 ];
-
-	// Don't wrap if empty, already wrapped, or already verified
-	if ( !content || content.startsWith( '{{Bot_proposes' ) || isAlreadyVerified( content ) ) {
-		return line;
+	const sentences = splitClaims( text, policy );
+	if ( change.type === 'modified' ) {
+		const changed = findChangedSentences( sentences, change.previous, policy );
+		return wrapSentences( sentences, policy, changed );
 	}
+	if ( stripBotProposes( text, policy.wrapperTemplate ) !== text ) {
+		return wrapSentences( sentences, policy );
+	}
+	return wrapWithBotProposes( text, policy );
+}
+
+/**
+ * Wrap the content of a list item with Bot_proposes.
+ * Preserves the list prefix (* or # etc) and wraps the rest.
+ *
+ * @param {WikitextBlock} block List item
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @param {UnitChange} change How the item changed
+ * @return {string} The new text of the item
+ */
+function wrapListItemContent(
+	block: WikitextBlock, policy: VerificationPolicy, change: UnitChange
+): string {
+	const content = ( block.content ?? '' ).trim();
 
 	// Don't wrap if it's just a wikilink with no descriptive text
 	// e.g., "* [[Justin Holmes]]" - just a name link, not a claim
 	if ( /^\[\[[^\]]+\]\]$/.test( content ) ) {
-		return line;
-	}
-
-	// Don't wrap if this content existed in the previous revision
-	if ( existingLines && existingLines.has( normalizeLine( content ) ) ) {
-		return line;
+		return block.text;
 	}
 
-	// Escape pipes and wrap the content
-	const escaped = content.replace( /\|/g, '{{!}}' );
-	return `${ prefix } {{Bot_proposes|${ escaped }|by=Magent}}`;
+	const wrapped = wrapChangedText( content, change, policy );
+	return wrapped === content ? block.text : `${ block.prefix } ${ wrapped }`;
 }
 
 /**
- * Wrap prose paragraphs and list items with Bot_proposes.
- * Only wraps content that is NOT in the existingLines set (i.e., new or changed content).
+ * Wrap the new or changed prose of a paragraph with Bot_proposes.
+ *
+ * @param {WikitextBlock} block Paragraph
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @param {UnitChange} change How the paragraph changed
+ * @return {string} The new text of the paragraph
  */
-function wrapProseWithBotProposes( source: string, existingLines?: Set<string> ): string {
-	const lines = source.split( '\n' );
-	const result: string[] = [];
-	let currentParagraph: string[] = [];
-
-	const flushParagraph = () => {
-		if ( currentParagraph.length > 0 ) {
-			const text = currentParagraph.join( ' ' ).trim();
-			if ( text && !text.startsWith( '{{Bot_proposes' ) && !isAlreadyVerified( text ) ) {
-				// Check if this paragraph existed in the previous revision
-				const normalizedText = normalizeLine( text );
-				if ( existingLines && existingLines.has( normalizedText ) ) {
-					// Content existed before - don't wrap it
-					result.push( text );
-				} else {
-					// New content - wrap it
-					const escaped = text.replace( /\|/g, '{{!}}' );
-					result.push( `{{Bot_proposes|${ escaped }|by=Magent}}` );
-				}
-			} else if ( text ) {
-				result.push( text );
-			}
-			currentParagraph = [];
-		}
-	};
-
-	for ( const line of lines ) {
-		if ( isNonWrappableLine( line ) ) {
-			// Headings, categories, templates, tables - don't wrap
-			flushParagraph();
-			result.push( line );
-		} else if ( isListItem( line ) ) {
-			// List items - wrap the content after the prefix
-			flushParagraph();
-			result.push( wrapListItemContent( line, existingLines ) );
-		} else {
-			// It's prose - accumulate into current paragraph
-			currentParagraph.push( line );
-		}
-	}
+function wrapParagraph(
+	block: WikitextBlock, policy: VerificationPolicy, change: UnitChange
+): string {
+	const text = block.text.trim();
+	const wrapped = wrapChangedText( text, change, policy );
+	return wrapped === text ? block.text : wrapped;
+}
 
-	flushParagraph();
-	return result.join( '\n' );
+/**
+ * Changes found in the status template of an updated page.
+ */
+interface TemplateChanges {
+	template: string;
+	fields: string[];
 }
 
 /**
  * Apply verification to content.
- * If existingLines is provided, only new/changed content gets wrapped.
+ * If the previous revision's source is provided, only new and changed content
+ * gets wrapped; otherwise all prose is treated as new.
+ * Templates, tables, tags, comments and other markup are never touched,
+ * except that a leading status-capable template gets status=proposed, and
+ * on updates proposed_fields listing the parameters that changed.
+ *
+ * @param {string} source New source
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @param {string} [previousSource] Source of the previous revision
+ * @return {{source: string, templateChanges: TemplateChanges|null}} The marked source, and
+ *  the changed fields of the status template
  */
-function applyVerification( source: string, existingLines?: Set<string> ): string {
-	const template = getTemplateWithStatus( source );
-
-	if ( template ) {
-		// Inject status=proposed into the template
-		let modified = injectTemplateStatus( source, template );
-
-		// Find where the template ends
-		const templateStart = modified.search( /\{\{/i );
-		if ( templateStart !== -1 ) {
-			const templateEnd = findTemplateEnd( modified, templateStart );
-			const beforeTemplate = modified.substring( 0, templateStart );
-			const templateContent = modified.substring( templateStart, templateEnd );
-			const afterTemplate = modified.substring( templateEnd );
-
-			// Wrap any prose after the template
-			if ( afterTemplate.trim() ) {
-				const wrappedAfter = wrapProseWithBotProposes( afterTemplate, existingLines );
-				modified = beforeTemplate + templateContent + wrappedAfter;
-			}
+function applyVerification(
+	source: string, policy: VerificationPolicy, previousSource?: string
+): { source: string; templateChanges: TemplateChanges | null } {
+	const blocks = parseBlocks( source );
+	const previousBlocks = previousSource === undefined ? undefined : parseBlocks( previousSource );
+	const statusTemplate = getTemplateWithStatus( blocks, policy );
+	const units = getContentUnits( blocks, policy );
+	const changes = previousBlocks === undefined ?
+		new Map<WikitextBlock, UnitChange>() :
+		classifyUnits( previousBlocks, units, policy );
+
+	if ( previousBlocks !== undefined ) {
+		const counts = { new: 0, modified: 0, unchanged: 0 };
+		for ( const change of changes.values() ) {
+			counts[ change.type ]++;
 		}
-
-		return modified;
+		console.error( `[verification] ${ counts.new } new, ${ counts.modified } modified, ${ counts.unchanged } unchanged paragraphs and list items` );
 	}
 
-	// No recognized template - wrap all prose with Bot_proposes
-	return wrapProseWithBotProposes( source, existingLines );
+	let templateChanges: TemplateChanges | null = null;
+	const modified = blocks.map( ( block ) => {
+		if ( block === statusTemplate ) {
+			const fields = previousBlocks && getTemplateChanges( block, previousBlocks, policy );
+			if ( !fields ) {
+				return injectTemplateStatus( block.text );
+			}
+			if ( fields.length === 0 ) {
+				// Unchanged since the previous revision, keep its review state
+				return block.text;
+			}
+			templateChanges = { template: block.name ?? '', fields };
+			return injectTemplateStatus( block.text, fields );
+		}
+		const change = changes.get( block ) ?? { type: 'new' };
+		if ( block.type === 'paragraph' ) {
+			return wrapParagraph( block, policy, change );
+		}
+		if ( block.type === 'listItem' ) {
+			return wrapListItemContent( block, policy, change );
+		}
+		return block.text;
+	} ).join( '\n' );
+
+	return { source: modified, templateChanges };
 }
 
 /**
@@ -381,41 +677,55 @@ function applyVerification( source: string, existingLines?: Set<string> ): strin
  * Automatically injects status=proposed or {{Bot_proposes}} for all edits,
  * ensuring bot content goes through the verification workflow.
  *
- * Exempt namespaces (Template, Talk, User, MediaWiki, Special, *_talk)
- * are not modified.
+ * The wrapper template, status-capable templates and exempt namespaces
+ * come from the active wiki's verification policy.
  */
 export const verificationMiddleware: Middleware = {
 	name: 'verification',
 
-	async onInput( context: EditContext ): Promise<EditContext> {
+	async onInput( context: WriteContext ): Promise<WriteContext> {
+		// Only page content is verified; deletes, uploads and moves pass through
+		if ( !isEditContext( context ) ) {
+			return context;
+		}
+
+		const policy = getVerificationPolicy();
+
 		// Check if this namespace is exempt from verification
-		if ( isExemptNamespace( context.title ) ) {
+		if ( isExemptTitle( policy, context.title ) ) {
 			console.error( `[verification] ${ context.title }: exempt namespace, skipping` );
 			return context;
 		}
 
-		// For updates, fetch the previous revision to do diff-based verification
-		let existingLines: Set<string> | undefined;
-		if ( context.tool === 'update-page' && context.latestId ) {
-			const previousSource = await fetchRevisionSource( context.latestId );
-			if ( previousSource ) {
-				existingLines = buildLineSet( previousSource );
-				console.error( `[verification] ${ context.title }: fetched ${ existingLines.size } lines from revision ${ context.latestId } for diff comparison` );
+		// For updates, fetch the previous revision (or the same section of it)
+		// to do diff-based verification. Appended text is all new.
+		let previousSource: string | undefined;
+		if ( ( context.tool === 'update-page' || context.tool === 'update-section' ) && context.latestId ) {
+			previousSource = await fetchRevisionSource(
+				context.latestId, context.section
+			) ?? undefined;
+			if ( previousSource !== undefined ) {
+				console.error( `[verification] ${ context.title }: comparing against ${ context.section === undefined ? '' : `section ${ context.section } of ` }revision ${ context.latestId }` );
 			} else {
 				console.error( `[verification] ${ context.title }: could not fetch previous revision, will wrap all content` );
 			}
 		}
 
 		// Apply verification to non-exempt content
-		const modifiedSource = applyVerification( context.source, existingLines );
+		const { source: modifiedSource, templateChanges } = applyVerification(
+			context.source, policy, previousSource
+		);
 
 		// Log what we did
+		if ( templateChanges ) {
+			console.error( `[verification] ${ context.title }: marked changed ${ templateChanges.template } fields as proposed: ${ templateChanges.fields.join( ', ' ) }` );
+		}
 		if ( modifiedSource !== context.source ) {
-			const template = getTemplateWithStatus( context.source );
+			const template = getTemplateWithStatus( parseBlocks( context.source ), policy );
 			if ( template ) {
-				console.error( `[verification] ${ context.title }: injected status=proposed into ${ template } template and wrapped new prose` );
+				console.error( `[verification] ${ context.title }: injected status=proposed into ${ template.name } template and wrapped new prose` );
 			} else {
-				console.error( `[verification] ${ context.title }: wrapped new prose with Bot_proposes` );
+				console.error( `[verification] ${ context.title }: wrapped new prose with ${ policy.wrapperTemplate }` );
 			}
 		} else {
 			console.error( `[verification] ${ context.title }: no modification needed` );
@@ -423,21 +733,33 @@ export const verificationMiddleware: Middleware = {
 
 		return {
 			...context,
-			source: modifiedSource
+			source: modifiedSource,
+			state: { ...context.state, verification: templateChanges }
 		};
 	},
 
-	async onOutput( context: EditContext, result: CallToolResult ): Promise<CallToolResult> {
+	async onOutput( context: WriteContext, result: CallToolResult ): Promise<CallToolResult> {
 		// Only add verification note if this namespace is NOT exempt
 		// (exempt namespaces don't go through verification workflow)
-		if ( !result.isError && result.content && !isExemptNamespace( context.title ) ) {
-			const note: TextContent = {
+		if (
+			isEditContext( context ) && !result.isError && result.content &&
+			!isExemptTitle( getVerificationPolicy(), context.title )
+		) {
+			const notes: TextContent[] = [ {
 				type: 'text',
 				text: '⚠️ This edit was automatically marked as "proposed" and requires human verification.'
-			};
+			} ];
+			const templateChanges = context.state?.verification as
+				TemplateChanges | null | undefined;
+			if ( templateChanges ) {
+				notes.push( {
+					type: 'text',
+					text: `Changed ${ templateChanges.template } fields marked as proposed: ${ templateChanges.fields.join( ', ' ) }`
+				} );
+			}
 			return {
 				...result,
-				content: [ ...result.content, note ]
+				content: [ ...result.content, ...notes ]
 			};
 		}
 		return result;
@@ -0,0 +1,106 @@
+import type { VerificationConfig } from '../common/config.js';
+import { wikiService } from '../common/wikiService.js';
+
+export type VerificationPolicy = Required<VerificationConfig>;
+
+/**
+ * PickiPedia's rules, used for any setting a wiki does not configure.
+ */
+export const DEFAULT_VERIFICATION_POLICY: VerificationPolicy = {
+	enabled: true,
+	exemptNamespaces: [
+		'Template',
+		'Talk',
+		'User',
+		'MediaWiki',
+		'Special',
+		'Module',
+		'Form',
+		// Bot config and meta pages
+		'PickiPedia'
+	],
+	namespaces: {},
+	templatesWithStatus: [
+		'Show',
+		'Venue',
+		'Scene',
+		'Artist',
+		'Song',
+		'Album'
+	],
+	wrapperTemplate: 'Bot_proposes',
+	proposer: 'Magent',
+	similarityThreshold: 0.5
+};
+
+/**
+ * Resolve the verification policy of the active wiki.
+ * Because it is read on every call, set-wiki swaps the policy along with the wiki.
+ *
+ * @return {VerificationPolicy}
+ */
+export function getVerificationPolicy(): VerificationPolicy {
+	const configured = wikiService.getCurrent().config.verification ?? {};
+	const defaults = DEFAULT_VERIFICATION_POLICY;
+	return {
+		enabled: configured.enabled ?? defaults.enabled,
+		exemptNamespaces: [ ...( configured.exemptNamespaces ?? defaults.exemptNamespaces ) ],
+		namespaces: { ...( configured.namespaces ?? defaults.namespaces ) },
+		templatesWithStatus: [
+			...( configured.templatesWithStatus ?? defaults.templatesWithStatus )
+		],
+		wrapperTemplate: configured.wrapperTemplate ?? defaults.wrapperTemplate,
+		proposer: configured.proposer ?? defaults.proposer,
+		similarityThreshold: configured.similarityThreshold ?? defaults.similarityThreshold
+	};
+}
+
+function getNamespace( title: string ): string {
+	const colonIndex = title.indexOf( ':' );
+	return colonIndex === -1 ? '' : title.slice( 0, colonIndex ).trim();
+}
+
+function findNamespaceSwitch( policy: VerificationPolicy, namespace: string ): boolean | undefined {
+	const wanted = ( namespace === '' ? 'Main' : namespace ).replace( /_/g, ' ' ).toLowerCase();
+	for ( const [ name, enabled ] of Object.entries( policy.namespaces ) ) {
+		const normalized = ( name === '' ? 'Main' : name ).replace( /_/g, ' ' ).toLowerCase();
+		if ( normalized === wanted ) {
+			return enabled;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Check if a page title is exempt from verification under a policy.
+ *
+ * @param {VerificationPolicy} policy Verification policy of the wiki
+ * @param {string} title Page title
+ * @return {boolean}
+ */
+export function isExemptTitle( policy: VerificationPolicy, title: string ): boolean {
+	if ( !policy.enabled ) {
+		return true;
+	}
+
+	const namespace = getNamespace( title );
+
+	const namespaceSwitch = findNamespaceSwitch( policy, namespace );
+	if ( namespaceSwitch !== undefined ) {
+		return !namespaceSwitch;
+	}
+
+	// Talk pages (any namespace ending in _talk)
+	if ( /[_ ]talk$/i.test( namespace ) ) {
+		return true;
+	}
+
+	if ( namespace === '' ) {
+		// Main namespace - not exempt
+		return false;
+	}
+
+	return policy.exemptNamespaces.some(
+		( ns ) => namespace.toLowerCase() === ns.toLowerCase()
+	);
+}
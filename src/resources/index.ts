@@ -4,6 +4,7 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resource } from '@modelcontextprotocol/sdk/types.js';
 /* eslint-enable n/no-missing-import */
 import { wikiService } from '../common/wikiService.js';
+import { isWikiAllowed } from '../common/session.js';
 import { WIKI_RESOURCE_URI_PREFIX } from '../common/constants.js';
 
 export function registerAllResources( server: McpServer ): void {
@@ -14,6 +15,9 @@ export function registerAllResources( server: McpServer ): void {
 				const allWikis = wikiService.getAll();
 				const resources: Resource[] = [];
 				for ( const wikiKey in allWikis ) {
+					if ( !isWikiAllowed( wikiKey ) ) {
+						continue;
+					}
 					const wikiConfig = allWikis[ wikiKey ];
 					resources.push( {
 						uri: `${ WIKI_RESOURCE_URI_PREFIX }${ wikiKey }`,
@@ -31,7 +35,7 @@ export function registerAllResources( server: McpServer ): void {
 		const wikiKey = variables.wikiKey as string;
 		const wikiConfig = wikiService.get( wikiKey );
 
-		if ( !wikiConfig ) {
+		if ( !wikiConfig || !isWikiAllowed( wikiKey ) ) {
 			return { contents: [] };
 		}
 
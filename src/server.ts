@@ -4,6 +4,8 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { createRequire } from 'node:module';
 import { registerAllTools } from './tools/index.js';
 import { registerAllResources } from './resources/index.js';
+import { getProfileTools } from './common/profiles.js';
+import { wikiService } from './common/wikiService.js';
 
 // https://github.com/nodejs/node/issues/51347#issuecomment-2111337854
 const packageInfo = createRequire( import.meta.url )( '../package.json' ) as { version: string };
@@ -11,7 +13,18 @@ const packageInfo = createRequire( import.meta.url )( '../package.json' ) as { v
 const SERVER_NAME: string = 'mediawiki-mcp-server';
 const SERVER_VERSION: string = packageInfo.version;
 
-export const createServer = (): McpServer => {
+export interface ServerOptions {
+	/**
+	 * Tools to offer. All tools when omitted.
+	 */
+	tools?: readonly string[];
+	/**
+	 * Permission profile whose tools to offer. Combined with tools when both are set.
+	 */
+	profile?: string;
+}
+
+export const createServer = ( options: ServerOptions = {} ): McpServer => {
 	const server = new McpServer(
 		{
 			name: SERVER_NAME,
@@ -26,9 +39,23 @@ export const createServer = (): McpServer => {
 		}
 	);
 
-	registerAllTools( server );
+	const profileTools = options.profile === undefined ?
+		undefined :
+		getProfileTools( options.profile );
+	const allowedTools = profileTools && options.tools ?
+		profileTools.filter( ( name ) => options.tools?.includes( name ) ) :
+		profileTools ?? options.tools;
+
+	registerAllTools( server, allowedTools );
 	registerAllResources( server );
 
+	const removeReloadListener = wikiService.onReload( ( wikisChanged ) => {
+		if ( wikisChanged ) {
+			server.sendResourceListChanged();
+		}
+	} );
+	server.server.onclose = removeReloadListener;
+
 	return server;
 };
 
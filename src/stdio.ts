@@ -4,10 +4,18 @@
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 /* eslint-enable n/no-missing-import */
 import { createServer } from './server.js';
+import { wikiService } from './common/wikiService.js';
+import { getSession } from './common/session.js';
+import { checkProfiles } from './common/profiles.js';
 
 async function main(): Promise<void> {
+	checkProfiles();
+	wikiService.watch();
+	const profile = wikiService.getTransportProfile( 'stdio' );
+	getSession().profile = profile;
+
 	const transport = new StdioServerTransport();
-	const server = createServer();
+	const server = createServer( { profile } );
 
 	await server.connect( transport );
 }
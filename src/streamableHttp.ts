@@ -7,58 +7,160 @@ import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 /* eslint-enable n/no-missing-import */
 import { createServer } from './server.js';
+import { createSessionState, runInSession } from './common/session.js';
+import type { SessionState } from './common/session.js';
+import { findApiKey, getPresentedKey, isAuthRequired } from './common/apiKeys.js';
+import type { ApiKeyConfig } from './common/config.js';
+import { wikiService } from './common/wikiService.js';
+import type { DeepReadonly } from './common/wikiService.js';
+import { checkProfiles } from './common/profiles.js';
 
 const app = express();
 app.use( express.json() );
 
 const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+// Wiki selection and API clients of each session, so clients don't affect each other
+const sessions: { [sessionId: string]: SessionState } = {};
+
+function sendJsonRpcError( res: Response, status: number, code: number, message: string ): void {
+	res.status( status ).json( {
+		jsonrpc: '2.0',
+		error: { code, message },
+		id: null
+	} );
+}
+
+/**
+ * Check the API key of a request when keys are configured.
+ * Returns the matching key (undefined when no keys are configured), or
+ * null after sending a 401 error if the request presents no valid key.
+ *
+ * @param {Request} req Request
+ * @param {Response} res Response
+ * @return {ApiKeyConfig|undefined|null}
+ */
+function authenticate(
+	req: Request, res: Response
+): DeepReadonly<ApiKeyConfig> | undefined | null {
+	if ( !isAuthRequired() ) {
+		return undefined;
+	}
+
+	const presented = getPresentedKey( req.headers );
+	const apiKey = presented === undefined ? undefined : findApiKey( presented );
+	if ( !apiKey ) {
+		console.error( `[auth] Rejected ${ req.method } ${ req.path }: ${ presented === undefined ? 'no API key' : 'invalid API key' }` );
+		res.setHeader( 'WWW-Authenticate', 'Bearer' );
+		sendJsonRpcError( res, 401, -32001, 'Unauthorized: a valid API key is required as a bearer token or X-API-Key header' );
+		return null;
+	}
+	return apiKey;
+}
+
+/**
+ * Check that a request for an existing session uses the key the session
+ * was started with. Sends a 403 error if not.
+ *
+ * @param {SessionState} session State of the session
+ * @param {ApiKeyConfig|undefined} apiKey Key of the request
+ * @param {Response} res Response
+ * @return {boolean}
+ */
+function isSessionOwner(
+	session: SessionState, apiKey: DeepReadonly<ApiKeyConfig> | undefined, res: Response
+): boolean {
+	if ( session.client?.name !== apiKey?.name ) {
+		sendJsonRpcError( res, 403, -32001, 'Forbidden: this session belongs to a different API key' );
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Start the state of a new session for a client. A client that may not use
+ * the default wiki starts on the first wiki it may use.
+ *
+ * @param {ApiKeyConfig|undefined} apiKey Key the session is started with
+ * @return {SessionState}
+ */
+function createSession( apiKey: DeepReadonly<ApiKeyConfig> | undefined ): SessionState {
+	const profile = apiKey?.profile ?? wikiService.getTransportProfile( 'http' );
+	if ( !apiKey ) {
+		return createSessionState( undefined, profile );
+	}
+	const session = createSessionState(
+		{ name: apiKey.name, wikis: apiKey.wikis, tools: apiKey.tools }, profile
+	);
+	if ( apiKey.wikis && !apiKey.wikis.includes( wikiService.getDefaultKey() ) ) {
+		session.wikiKey = apiKey.wikis[ 0 ];
+	}
+	return session;
+}
 
 app.post( '/mcp', async ( req: Request, res: Response ) => {
+	const apiKey = authenticate( req, res );
+	if ( apiKey === null ) {
+		return;
+	}
+
 	const sessionId = req.headers[ 'mcp-session-id' ] as string | undefined;
 	let transport: StreamableHTTPServerTransport;
+	let session: SessionState;
 
 	if ( sessionId && transports[ sessionId ] ) {
 		transport = transports[ sessionId ];
+		session = sessions[ sessionId ];
+		if ( !isSessionOwner( session, apiKey, res ) ) {
+			return;
+		}
 	} else if ( !sessionId && isInitializeRequest( req.body ) ) {
+		const newSession = createSession( apiKey );
+		session = newSession;
 		transport = new StreamableHTTPServerTransport( {
 			sessionIdGenerator: () => randomUUID(),
 			onsessioninitialized: ( sessionId ) => {
 				transports[ sessionId ] = transport;
+				sessions[ sessionId ] = newSession;
 			}
 		} );
 
 		transport.onclose = () => {
 			if ( transport.sessionId ) {
 				delete transports[ transport.sessionId ];
+				delete sessions[ transport.sessionId ];
 			}
 		};
-		const server = createServer();
+		const server = createServer( { tools: apiKey?.tools, profile: newSession.profile } );
+		if ( apiKey ) {
+			console.error( `[auth] Session started for ${ apiKey.name }` );
+		}
 
 		await server.connect( transport );
 	} else {
-		res.status( 400 ).json( {
-			jsonrpc: '2.0',
-			error: {
-				code: -32000,
-				message: 'Bad Request: No valid session ID provided'
-			},
-			id: null
-		} );
+		sendJsonRpcError( res, 400, -32000, 'Bad Request: No valid session ID provided' );
 		return;
 	}
 
-	await transport.handleRequest( req, res, req.body );
+	await runInSession( session, () => transport.handleRequest( req, res, req.body ) );
 } );
 
 const handleSessionRequest = async ( req: Request, res: Response ): Promise<void> => {
+	const apiKey = authenticate( req, res );
+	if ( apiKey === null ) {
+		return;
+	}
+
 	const sessionId = req.headers[ 'mcp-session-id' ] as string | undefined;
 	if ( !sessionId || !transports[ sessionId ] ) {
 		res.status( 400 ).send( 'Invalid or missing session ID' );
 		return;
 	}
+	if ( !isSessionOwner( sessions[ sessionId ], apiKey, res ) ) {
+		return;
+	}
 
 	const transport = transports[ sessionId ];
-	await transport.handleRequest( req, res );
+	await runInSession( sessions[ sessionId ], () => transport.handleRequest( req, res ) );
 };
 
 app.get( '/mcp', handleSessionRequest );
@@ -70,7 +172,13 @@ app.get( '/health', ( _req: Request, res: Response ) => {
 	res.status( 200 ).json( { status: 'ok' } );
 } );
 
+checkProfiles();
+wikiService.watch();
+
 const PORT = process.env.PORT || 3000;
 app.listen( PORT, () => {
 	console.error( `MCP Streamable HTTP Server listening on port ${ PORT }` );
+	if ( !isAuthRequired() ) {
+		console.error( 'Warning: no apiKeys configured, /mcp accepts requests without authentication' );
+	}
 } );
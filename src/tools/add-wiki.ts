@@ -5,6 +5,8 @@ import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontext
 /* eslint-enable n/no-missing-import */
 import { wikiService } from '../common/wikiService.js';
 import { discoverWiki } from '../common/wikiDiscovery.js';
+import { classifiedErrorResult, errorResult } from '../common/errors.js';
+import { mayManageWikis } from '../common/session.js';
 
 export function addWikiTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -22,18 +24,20 @@ export function addWikiTool( server: McpServer ): RegisteredTool {
 }
 
 async function handleAddWikiTool( server: McpServer, wikiUrl: string ): Promise<CallToolResult> {
+	if ( !mayManageWikis() ) {
+		return classifiedErrorResult( 'Adding wikis is not allowed for this client.', {
+			code: 'permission-denied',
+			hint: 'Only API keys that are not limited to some wikis may add or remove wikis.'
+		} );
+	}
+
 	const wikiInfo = await discoverWiki( wikiUrl );
 
 	if ( wikiInfo === null ) {
-		return {
-			content: [
-				{
-					type: 'text',
-					text: 'Failed to determine wiki info. Please ensure the URL is correct and the wiki is accessible.'
-				} as TextContent
-			],
-			isError: true
-		};
+		return classifiedErrorResult( 'Failed to determine wiki info.', {
+			code: 'network',
+			hint: 'Please ensure the URL is correct and the wiki is accessible.'
+		} );
 	}
 
 	try {
@@ -58,14 +62,6 @@ async function handleAddWikiTool( server: McpServer, wikiUrl: string ): Promise<
 			]
 		};
 	} catch ( error ) {
-		return {
-			content: [
-				{
-					type: 'text',
-					text: `Failed to add wiki: ${ ( error as Error ).message }`
-				} as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Failed to add wiki', error );
 	}
 }
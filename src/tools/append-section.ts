@@ -0,0 +1,98 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiEditResponse } from 'mwn';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { getPageUrl, formatEditComment } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
+import { pipeline } from '../middleware/index.js';
+import type { EditContext } from '../middleware/types.js';
+import { sectionEditToolResult } from './update-section.js';
+
+export function appendSectionTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'append-section',
+		'Appends text to the end of one section of a wiki page, to the end of the page, or as a new section with a heading. The rest of the page is left untouched, so no revision ID is needed.',
+		{
+			title: z.string().describe( 'Wiki page title' ),
+			text: z.string().describe( 'Wikitext to append' ),
+			section: z.number().int().min( 0 ).optional().describe( 'Section index from get-page-sections to append to. Appends to the end of the page when omitted' ),
+			sectionTitle: z.string().optional().describe( 'Heading of a new section to add at the end of the page, containing the text. Cannot be combined with section' ),
+			comment: z.string().optional().describe( 'Summary of the edit' )
+		},
+		{
+			title: 'Append to section',
+			readOnlyHint: false,
+			destructiveHint: false
+		} as ToolAnnotations,
+		async (
+			{ title, text, section, sectionTitle, comment }
+		) => {
+			if ( section !== undefined && sectionTitle !== undefined ) {
+				return {
+					content: [ {
+						type: 'text',
+						text: 'Set either section, to append to an existing section, or sectionTitle, to add a new one, not both'
+					} ],
+					isError: true
+				};
+			}
+
+			const context: EditContext = {
+				tool: 'append-section',
+				title,
+				section,
+				sectionTitle,
+				source: text,
+				comment
+			};
+			return pipeline.wrapHandler( context, handleAppendSectionToolWithContext );
+		}
+	);
+}
+
+function describeTarget( context: EditContext ): string {
+	if ( context.sectionTitle !== undefined ) {
+		return `Section "${ context.sectionTitle }" added to ${ context.title }`;
+	}
+	if ( context.section !== undefined ) {
+		return `Text appended to section ${ context.section } of ${ context.title }`;
+	}
+	return `Text appended to ${ context.title }`;
+}
+
+async function handleAppendSectionToolWithContext( context: EditContext ): Promise<CallToolResult> {
+	let data: ApiEditResponse;
+	try {
+		const mwn = await getMwn();
+		const summary = formatEditComment( 'append-section', context.comment );
+		if ( context.sectionTitle !== undefined ) {
+			// mwn passes the heading as the summary; set both separately
+			data = await mwn.newSection( context.title, context.sectionTitle, context.source, {
+				sectiontitle: context.sectionTitle,
+				summary,
+				nocreate: true
+			} );
+		} else {
+			const response = await mwn.request( {
+				action: 'edit',
+				title: context.title,
+				...( context.section === undefined ? {} : { section: context.section } ),
+				// Separate the text from what it is appended to, as a new paragraph
+				appendtext: `\n\n${ context.source }`,
+				summary,
+				nocreate: true,
+				token: mwn.csrfToken
+			} );
+			data = response.edit as ApiEditResponse;
+		}
+	} catch ( error ) {
+		return errorResult( 'Failed to append to section', error );
+	}
+
+	return {
+		content: sectionEditToolResult( `${ describeTarget( context ) } successfully: ${ getPageUrl( data.title ) }`, data )
+	};
+}
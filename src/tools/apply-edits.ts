@@ -0,0 +1,475 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import {
+	fetchRevisionSource,
+	formatEditComment,
+	getPageUrl,
+	makeRestPostRequest,
+	makeRestPutRequest
+} from '../common/utils.js';
+import { isToolAllowedOnWiki } from '../common/profiles.js';
+import { wikiService } from '../common/wikiService.js';
+import { errorResult } from '../common/errors.js';
+import type { ErrorCode } from '../common/errors.js';
+import type { MwRestApiPageObject } from '../types/mwRestApi.js';
+import { pipeline } from '../middleware/index.js';
+import type { DeleteContext, EditContext, RevertContext } from '../middleware/types.js';
+
+/**
+ * Most edits applied in one call.
+ */
+const MAX_EDITS = 50;
+
+/**
+ * Default pause between two edits, in milliseconds.
+ */
+const DEFAULT_DELAY = 1000;
+
+interface EditOperation {
+	action: 'create' | 'update';
+	title: string;
+	source: string;
+	latestId?: number;
+	comment?: string;
+	contentModel?: string;
+}
+
+interface PageState {
+	/**
+	 * Title the wiki normalized the requested one to.
+	 */
+	title: string;
+	missing: boolean;
+	invalid?: string;
+	lastrevid?: number;
+}
+
+interface InfoPage {
+	title: string;
+	missing?: boolean;
+	invalid?: boolean;
+	invalidreason?: string;
+	lastrevid?: number;
+}
+
+/**
+ * Why an edit did not pass validation.
+ */
+interface ValidationProblem {
+	index: number;
+	code: ErrorCode;
+	message: string;
+}
+
+type EditStatus = 'applied' | 'failed' | 'skipped' | 'rolled-back' | 'rollback-failed' | 'not-deleted';
+
+interface EditReport {
+	action: EditOperation['action'];
+	title: string;
+	status: EditStatus;
+	/**
+	 * Revision the page was at before the edit, if it existed.
+	 */
+	previousRevision?: number;
+	/**
+	 * Revision saved by the edit.
+	 */
+	revision?: number;
+	error?: string;
+}
+
+export function applyEditsTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'apply-edits',
+		`Applies a set of related page creations and updates (up to ${ MAX_EDITS }) as one operation. All edits are validated first: pages to create must not exist, pages to update must exist with latestId as their current revision, and the middleware must accept each edit. If any edit fails validation, nothing is saved. The edits are then saved in order, stopping at the first failure. With rollbackOnFailure, edits already saved are then reverted to their previous revisions.`,
+		{
+			edits: z.array( z.object( {
+				action: z.enum( [ 'create', 'update' ] ).describe( 'Whether the edit creates a new page or updates an existing one' ),
+				title: z.string().describe( 'Wiki page title' ),
+				source: z.string().describe( 'New page content' ),
+				latestId: z.number().int().positive().optional().describe( 'For updates, the current revision ID of the page, used as the base for the new source' ),
+				comment: z.string().optional().describe( 'Summary of this edit. Defaults to the batch comment' ),
+				contentModel: z.string().optional().describe( 'For creations, the type of content on the page (default: wikitext)' )
+			} ) ).min( 1 ).max( MAX_EDITS ).describe( 'Edits to apply, in order' ),
+			comment: z.string().optional().describe( 'Summary of the edits' ),
+			delay: z.number().int().min( 0 ).max( 60000 ).optional().default( DEFAULT_DELAY ).describe( 'Pause between two edits, in milliseconds' ),
+			rollbackOnFailure: z.boolean().optional().default( false ).describe( 'When an edit fails, revert the edits already saved to their previous revisions, and delete pages already created if the permission profile and API key allow delete-page' )
+		},
+		{
+			title: 'Apply edits',
+			readOnlyHint: false,
+			destructiveHint: true
+		} as ToolAnnotations,
+		async (
+			{ edits, comment, delay, rollbackOnFailure }
+		) => handleApplyEditsTool( edits, comment, delay, rollbackOnFailure )
+	);
+}
+
+function getEditContext( edit: EditOperation, comment: string | undefined ): EditContext {
+	return edit.action === 'create' ? {
+		tool: 'create-page',
+		title: edit.title,
+		source: edit.source,
+		comment: edit.comment ?? comment,
+		contentModel: edit.contentModel ?? 'wikitext'
+	} : {
+		tool: 'update-page',
+		title: edit.title,
+		source: edit.source,
+		comment: edit.comment ?? comment,
+		latestId: edit.latestId
+	};
+}
+
+async function handleApplyEditsTool(
+	edits: EditOperation[], comment: string | undefined, delay: number, rollbackOnFailure: boolean
+): Promise<CallToolResult> {
+	let problems: ValidationProblem[];
+	let states: PageState[];
+	try {
+		states = await fetchPageStates( edits.map( ( edit ) => edit.title ) );
+		problems = await validateEdits( edits, states, comment );
+	} catch ( error ) {
+		return errorResult( 'Failed to validate edits', error );
+	}
+	if ( problems.length > 0 ) {
+		return validationFailedResult( edits, problems );
+	}
+
+	const reports: EditReport[] = edits.map( ( edit, index ) => ( {
+		action: edit.action,
+		title: states[ index ].title,
+		status: 'skipped',
+		previousRevision: states[ index ].lastrevid
+	} ) );
+	let failure: CallToolResult | undefined;
+	for ( let i = 0; i < edits.length; i++ ) {
+		if ( i > 0 && delay > 0 ) {
+			await new Promise( ( resolve ) => {
+				setTimeout( resolve, delay );
+			} );
+		}
+		const { result, saved } = await applyEdit( getEditContext( edits[ i ], comment ) );
+		if ( result.isError || !saved ) {
+			reports[ i ].status = 'failed';
+			reports[ i ].error = getResultText( result ) || 'The edit was not saved';
+			failure = result;
+			break;
+		}
+		reports[ i ].status = 'applied';
+		reports[ i ].revision = saved.latest.id;
+	}
+
+	if ( failure && rollbackOnFailure ) {
+		await rollBack( reports );
+	}
+	return applyEditsToolResult( reports, failure, rollbackOnFailure );
+}
+
+/**
+ * Look up the current revision of each title, in one query per 50 titles.
+ *
+ * @param {string[]} titles Page titles
+ * @return {Promise<PageState[]>} The state of each page, in the order of the titles
+ */
+async function fetchPageStates( titles: string[] ): Promise<PageState[]> {
+	const mwn = await getMwn();
+	const responses = await mwn.massQuery( {
+		action: 'query',
+		prop: 'info',
+		titles: [ ...new Set( titles ) ],
+		formatversion: '2'
+	}, 'titles' );
+
+	const normalized = new Map<string, string>();
+	const pages = new Map<string, InfoPage>();
+	for ( const response of responses ) {
+		for ( const { from, to } of response.query?.normalized ?? [] ) {
+			normalized.set( from, to );
+		}
+		for ( const page of response.query?.pages ?? [] ) {
+			pages.set( page.title, page );
+		}
+	}
+
+	return titles.map( ( title ) => {
+		const page = pages.get( normalized.get( title ) ?? title );
+		if ( !page || page.invalid ) {
+			return { title, missing: true, invalid: page?.invalidreason ?? 'the title is not valid' };
+		}
+		return { title: page.title, missing: page.missing === true, lastrevid: page.lastrevid };
+	} );
+}
+
+/**
+ * Check every edit against the state of its page, and run it through the
+ * middleware without saving, as preview-edit does.
+ *
+ * @param {EditOperation[]} edits Edits of the batch
+ * @param {PageState[]} states State of the page of each edit
+ * @param {string|undefined} comment Edit summary of the batch
+ * @return {Promise<ValidationProblem[]>}
+ */
+async function validateEdits(
+	edits: EditOperation[], states: PageState[], comment: string | undefined
+): Promise<ValidationProblem[]> {
+	const problems: ValidationProblem[] = [];
+	const seen = new Map<string, number>();
+	for ( let index = 0; index < edits.length; index++ ) {
+		const edit = edits[ index ];
+		const state = states[ index ];
+		const problem = ( code: ErrorCode, message: string ): void => {
+			problems.push( { index, code, message } );
+		};
+
+		if ( state.invalid ) {
+			problem( 'invalid-title', `Invalid title: ${ state.invalid }` );
+			continue;
+		}
+		if ( seen.has( state.title ) ) {
+			problem( 'unknown', `${ state.title } is also edited by edit ${ ( seen.get( state.title ) as number ) + 1 }; combine edits to the same page into one` );
+			continue;
+		}
+		seen.set( state.title, index );
+
+		if ( edit.action === 'create' && !state.missing ) {
+			problem( 'unknown', `${ state.title } already exists (revision ${ state.lastrevid }); use action "update" to change it` );
+			continue;
+		}
+		if ( edit.action === 'update' ) {
+			if ( state.missing ) {
+				problem( 'not-found', `${ state.title } does not exist; use action "create" to create it` );
+				continue;
+			}
+			if ( edit.latestId === undefined ) {
+				problem( 'unknown', `latestId is required to update ${ state.title } (its current revision is ${ state.lastrevid })` );
+				continue;
+			}
+			if ( edit.latestId !== state.lastrevid ) {
+				problem( 'edit-conflict', `${ state.title } was changed since revision ${ edit.latestId } (now revision ${ state.lastrevid }); fetch it again and reapply the edit` );
+				continue;
+			}
+		}
+
+		const { halted } = await pipeline.traceInput( getEditContext( edit, comment ) );
+		if ( halted ) {
+			problem( 'unknown', halted.halt.halt === 'reject' ?
+				`Rejected by ${ halted.middleware } (${ halted.halt.code }): ${ halted.halt.message }` :
+				`${ halted.middleware } would answer the edit without saving it` );
+		}
+	}
+	return problems;
+}
+
+/**
+ * Save one edit through the middleware pipeline, as create-page and
+ * update-page do. Edit conflicts are not merged: the batch was validated
+ * against the current revisions, so a conflict means someone else is
+ * editing the same pages.
+ *
+ * @param {EditContext} context Context of the edit
+ * @return {Promise<Object>} The tool result, and the saved page if the edit was saved
+ */
+async function applyEdit(
+	context: EditContext
+): Promise<{ result: CallToolResult; saved?: MwRestApiPageObject }> {
+	let saved: MwRestApiPageObject | undefined;
+	const save = async ( ctx: EditContext ): Promise<CallToolResult> => {
+		try {
+			saved = ctx.tool === 'create-page' ?
+				await makeRestPostRequest<MwRestApiPageObject>( '/v1/page', {
+					source: ctx.source,
+					title: ctx.title,
+					comment: formatEditComment( 'apply-edits', ctx.comment ),
+					// eslint-disable-next-line camelcase
+					content_model: ctx.contentModel
+				}, true ) :
+				await makeRestPutRequest<MwRestApiPageObject>( `/v1/page/${ encodeURIComponent( ctx.title ) }`, {
+					source: ctx.source,
+					comment: formatEditComment( 'apply-edits', ctx.comment ),
+					latest: { id: ctx.latestId }
+				}, true );
+		} catch ( error ) {
+			return errorResult( `Failed to ${ ctx.tool === 'create-page' ? 'create' : 'update' } page`, error );
+		}
+		return {
+			content: [ { type: 'text', text: `Saved revision ${ saved.latest.id } of ${ getPageUrl( saved.title ) }` } ]
+		};
+	};
+	const result = await pipeline.wrapHandler( context, save );
+	return { result, saved };
+}
+
+/**
+ * Revert the applied edits, last first: restore the previous revision of
+ * updated pages and delete created ones. Each goes through the middleware
+ * pipeline as a revert-page or delete-page operation. Created pages are
+ * kept when the permission profile or API key does not allow delete-page.
+ *
+ * @param {EditReport[]} reports Reports of the edits, updated in place
+ */
+async function rollBack( reports: EditReport[] ): Promise<void> {
+	const comment = 'Roll back a batch edit that failed part way';
+	const canDelete = isToolAllowedOnWiki( 'delete-page', wikiService.getCurrent().key );
+	for ( const report of [ ...reports ].reverse() ) {
+		if ( report.status !== 'applied' ) {
+			continue;
+		}
+		if ( report.action === 'create' && !canDelete ) {
+			report.status = 'not-deleted';
+			continue;
+		}
+		let result: CallToolResult;
+		if ( report.action === 'create' ) {
+			const context: DeleteContext = { tool: 'delete-page', title: report.title, comment };
+			result = await pipeline.wrapHandler( context, deleteCreatedPage );
+		} else {
+			const context: RevertContext = {
+				tool: 'revert-page',
+				title: report.title,
+				revisionId: report.previousRevision as number,
+				comment
+			};
+			result = await pipeline.wrapHandler(
+				context, ( ctx ) => restorePreviousRevision( ctx, report.revision as number )
+			);
+		}
+		if ( result.isError ) {
+			report.status = 'rollback-failed';
+			report.error = getResultText( result ) || 'The page was not rolled back';
+		} else {
+			report.status = 'rolled-back';
+		}
+	}
+}
+
+async function deleteCreatedPage( context: DeleteContext ): Promise<CallToolResult> {
+	try {
+		const mwn = await getMwn();
+		await mwn.delete( context.title, formatEditComment( 'apply-edits', context.comment ) );
+	} catch ( error ) {
+		return errorResult( 'Failed to delete page', error );
+	}
+	return { content: [ { type: 'text', text: `Deleted ${ context.title }` } ] };
+}
+
+async function restorePreviousRevision(
+	context: RevertContext, latestId: number
+): Promise<CallToolResult> {
+	try {
+		const source = await fetchRevisionSource( context.revisionId );
+		if ( source === null ) {
+			throw new Error( `revision ${ context.revisionId } could not be fetched` );
+		}
+		await makeRestPutRequest<MwRestApiPageObject>( `/v1/page/${ encodeURIComponent( context.title ) }`, {
+			source,
+			comment: formatEditComment( 'apply-edits', context.comment ),
+			latest: { id: latestId }
+		}, true );
+	} catch ( error ) {
+		return errorResult( 'Failed to restore page', error );
+	}
+	return {
+		content: [ { type: 'text', text: `Restored ${ context.title } to revision ${ context.revisionId }` } ]
+	};
+}
+
+function getResultText( result: CallToolResult ): string {
+	return result.content
+		.filter( ( item ): item is TextContent => item.type === 'text' )
+		.map( ( item ) => item.text )
+		.join( ' ' );
+}
+
+function validationFailedResult(
+	edits: EditOperation[], problems: ValidationProblem[]
+): CallToolResult {
+	return {
+		content: [
+			{
+				type: 'text',
+				text: `${ problems.length } of ${ edits.length } edits failed validation. Nothing was saved.`
+			},
+			{
+				type: 'text',
+				text: problems.map( ( { index, message } ) => `${ index + 1 }. ${ edits[ index ].action } ${ edits[ index ].title }: ${ message }` ).join( '\n' )
+			}
+		],
+		isError: true,
+		_meta: {
+			error: { code: problems[ 0 ].code },
+			problems: problems.map( ( { index, code, message } ) => (
+				{ index, title: edits[ index ].title, code, message }
+			) )
+		}
+	};
+}
+
+function describeReport( report: EditReport, index: number ): string {
+	const item = `${ index + 1 }. ${ report.action } ${ report.title }`;
+	switch ( report.status ) {
+		case 'applied':
+			return `${ item }: saved revision ${ report.revision }`;
+		case 'failed':
+			return `${ item }: failed: ${ report.error }`;
+		case 'skipped':
+			return `${ item }: not attempted`;
+		case 'rolled-back':
+			return report.action === 'create' ?
+				`${ item }: saved revision ${ report.revision }, then deleted` :
+				`${ item }: saved revision ${ report.revision }, then restored to revision ${ report.previousRevision }`;
+		case 'rollback-failed':
+			return `${ item }: saved revision ${ report.revision }, could not be rolled back: ${ report.error }`;
+		case 'not-deleted':
+			return `${ item }: saved revision ${ report.revision }, not deleted`;
+	}
+}
+
+function applyEditsToolResult(
+	reports: EditReport[], failure: CallToolResult | undefined, rolledBack: boolean
+): CallToolResult {
+	const applied = reports.filter( ( report ) => report.status === 'applied' );
+	let summary: string;
+	if ( !failure ) {
+		summary = `All ${ reports.length } edits were saved.`;
+	} else if ( rolledBack ) {
+		const failed = reports.filter( ( report ) => report.status === 'rollback-failed' ).length;
+		summary = failed > 0 ?
+			`An edit failed, and ${ failed } of the edits saved before it could not be rolled back. Fix them by hand.` :
+			'An edit failed. The edits saved before it were rolled back.';
+		if ( reports.some( ( report ) => report.status === 'not-deleted' ) ) {
+			summary += ' The pages created by the batch were kept, as the permission profile or API key does not allow delete-page.';
+		}
+	} else {
+		summary = applied.length > 0 ?
+			`An edit failed after ${ applied.length } were saved. The rest were not attempted. To undo the saved edits, restore the previous revisions listed below with revert-page (and delete the created pages), or run the batch with rollbackOnFailure=true.` :
+			'The first edit failed. Nothing was saved.';
+	}
+
+	const restore = !failure || rolledBack ? [] : applied
+		.filter( ( report ) => report.action === 'update' )
+		.map( ( report ) => `- ${ report.title }: previous revision ${ report.previousRevision }` );
+	const kept = reports
+		.filter( ( report ) => report.status === 'not-deleted' )
+		.map( ( report ) => `- ${ report.title }` );
+
+	const { _meta: failureMeta } = failure ?? {};
+	return {
+		content: [
+			{ type: 'text', text: summary },
+			{ type: 'text', text: reports.map( describeReport ).join( '\n' ) },
+			...( restore.length > 0 ? [ { type: 'text', text: `Previous revisions:\n${ restore.join( '\n' ) }` } as TextContent ] : [] ),
+			...( kept.length > 0 ? [ { type: 'text', text: `Created pages not deleted:\n${ kept.join( '\n' ) }` } as TextContent ] : [] )
+		],
+		...( failure ? { isError: true } : {} ),
+		_meta: {
+			...( failure ? { error: ( failureMeta as { error?: unknown } | undefined )?.error ?? { code: 'unknown' } } : {} ),
+			edits: reports
+		}
+	};
+}
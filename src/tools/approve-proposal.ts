@@ -0,0 +1,102 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+/* eslint-enable n/no-missing-import */
+import { getPageUrl } from '../common/utils.js';
+import {
+	ProposalResolution,
+	prepareProposalResolution,
+	saveProposalResolution
+} from '../common/proposals.js';
+import type { PendingProposal } from '../common/proposals.js';
+import { errorResult } from '../common/errors.js';
+import type { MwRestApiPageObject } from '../types/mwRestApi.js';
+import { pipeline } from '../middleware/index.js';
+import type { ProposalContext } from '../middleware/types.js';
+
+enum ApprovalFormat {
+	plain = 'plain',
+	verified = 'verified'
+}
+
+export function approveProposalTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'approve-proposal',
+		'Approves a pending claim found by list-pending-proposals. Bot_proposes wrappers are unwrapped into plain text or {{verified|...}}; status=proposed is removed or set to verified. The edit passes through the middleware pipeline, but the verification middleware leaves it alone.',
+		{
+			title: z.string().describe( 'Wiki page title' ),
+			claimId: z.string().describe( 'Claim ID returned by list-pending-proposals' ),
+			format: z.nativeEnum( ApprovalFormat ).optional().default( ApprovalFormat.plain ).describe( 'Whether to leave the approved claim as plain content or mark it as verified' ),
+			comment: z.string().optional().describe( 'Summary of the edit' )
+		},
+		{
+			title: 'Approve proposal',
+			readOnlyHint: false,
+			destructiveHint: true
+		} as ToolAnnotations,
+		async (
+			{ title, claimId, format, comment }
+		) => handleApproveProposalTool( title, claimId, format, comment )
+	);
+}
+
+async function handleApproveProposalTool(
+	title: string, claimId: string, format: ApprovalFormat, comment?: string
+): Promise<CallToolResult> {
+	const resolution = format === ApprovalFormat.verified ?
+		ProposalResolution.approveVerified : ProposalResolution.approvePlain;
+
+	let prepared: { proposal: PendingProposal; source: string; latestId: number };
+	try {
+		prepared = await prepareProposalResolution( title, claimId, resolution );
+	} catch ( error ) {
+		return errorResult( 'Failed to approve proposal', error );
+	}
+
+	const context: ProposalContext = {
+		tool: 'approve-proposal',
+		title,
+		claimId,
+		source: prepared.source,
+		latestId: prepared.latestId,
+		comment: comment ?? `Approved proposed claim ${ claimId }`
+	};
+	return pipeline.wrapHandler(
+		context, ( ctx ) => handleApproveProposalToolWithContext( ctx, prepared.proposal )
+	);
+}
+
+async function handleApproveProposalToolWithContext(
+	context: ProposalContext, proposal: PendingProposal
+): Promise<CallToolResult> {
+	let page: MwRestApiPageObject;
+	try {
+		page = await saveProposalResolution( context );
+	} catch ( error ) {
+		return errorResult( 'Failed to approve proposal', error );
+	}
+
+	return {
+		content: approveProposalToolResult( proposal, page )
+	};
+}
+
+function approveProposalToolResult(
+	proposal: PendingProposal, page: MwRestApiPageObject
+): TextContent[] {
+	return [
+		{
+			type: 'text',
+			text: `Claim ${ proposal.id } approved: ${ getPageUrl( page.title ) }`
+		},
+		{
+			type: 'text',
+			text: [
+				`Section: ${ proposal.section ?? '(lead)' }`,
+				`Latest revision ID: ${ page.latest.id }`,
+				`Latest revision timestamp: ${ page.latest.timestamp }`
+			].join( '\n' )
+		}
+	];
+}
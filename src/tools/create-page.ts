@@ -4,6 +4,7 @@ import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server
 import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 /* eslint-enable n/no-missing-import */
 import { makeRestPostRequest, getPageUrl, formatEditComment } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
 import type { MwRestApiPageObject } from '../types/mwRestApi.js';
 import { pipeline } from '../middleware/index.js';
 import type { EditContext } from '../middleware/types.js';
@@ -50,12 +51,7 @@ async function handleCreatePageToolWithContext( context: EditContext ): Promise<
 			content_model: context.contentModel
 		}, true );
 	} catch ( error ) {
-		return {
-			content: [
-				{ type: 'text', text: `Failed to create page: ${ ( error as Error ).message }` } as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Failed to create page', error );
 	}
 
 	return {
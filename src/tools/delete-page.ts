@@ -6,6 +6,9 @@ import type { ApiDeleteResponse } from 'mwn';
 /* eslint-enable n/no-missing-import */
 import { getMwn } from '../common/mwn.js';
 import { formatEditComment } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
+import { pipeline } from '../middleware/index.js';
+import type { DeleteContext } from '../middleware/types.js';
 
 export function deletePageTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -22,28 +25,24 @@ export function deletePageTool( server: McpServer ): RegisteredTool {
 		} as ToolAnnotations,
 		async (
 			{ title, comment }
-		) => handleDeletePageTool( title, comment )
+		) => {
+			const context: DeleteContext = {
+				tool: 'delete-page',
+				title,
+				comment
+			};
+			return pipeline.wrapHandler( context, handleDeletePageToolWithContext );
+		}
 	);
 }
 
-async function handleDeletePageTool(
-	title: string,
-	comment?: string
-): Promise<CallToolResult> {
+async function handleDeletePageToolWithContext( context: DeleteContext ): Promise<CallToolResult> {
 	let data: ApiDeleteResponse;
 	try {
 		const mwn = await getMwn();
-		data = await mwn.delete( title, formatEditComment( 'delete-page', comment ) );
+		data = await mwn.delete( context.title, formatEditComment( 'delete-page', context.comment ) );
 	} catch ( error ) {
-		return {
-			content: [
-				{
-					type: 'text',
-					text: `Delete failed: ${ ( error as Error ).message }`
-				} as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Delete failed', error );
 	}
 
 	return {
@@ -6,6 +6,7 @@ import type { ApiQueryCategoryMembersParams } from 'types-mediawiki-api';
 /* eslint-enable n/no-missing-import */
 import type { ApiPageInfo } from '../types/mwn.ts';
 import { getMwn } from '../common/mwn.js';
+import { errorResult } from '../common/errors.js';
 
 enum CategoryMemberType {
 	file = 'file',
@@ -53,15 +54,7 @@ async function handleGetCategoryMembersTool(
 
 		data = await mwnCategory.members( options );
 	} catch ( error ) {
-		return {
-			content: [
-				{
-					type: 'text',
-					text: `Get category members failed: ${ ( error as Error ).message }`
-				} as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Get category members failed', error );
 	}
 
 	return {
@@ -4,6 +4,7 @@ import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server
 import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 /* eslint-enable n/no-missing-import */
 import { makeRestGetRequest } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
 import type { MwRestApiFileObject } from '../types/mwRestApi.js';
 
 export function getFileTool( server: McpServer ): RegisteredTool {
@@ -27,12 +28,7 @@ async function handleGetFileTool( title: string ): Promise< CallToolResult > {
 	try {
 		data = await makeRestGetRequest<MwRestApiFileObject>( `/v1/file/${ encodeURIComponent( title ) }` );
 	} catch ( error ) {
-		return {
-			content: [
-				{ type: 'text', text: `Failed to retrieve file data: ${ ( error as Error ).message }` } as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Failed to retrieve file data', error );
 	}
 
 	return {
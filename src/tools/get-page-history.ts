@@ -4,6 +4,7 @@ import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server
 import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 /* eslint-enable n/no-missing-import */
 import { makeRestGetRequest } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
 import type { MwRestApiGetPageHistoryResponse, MwRestApiRevisionObject } from '../types/mwRestApi.js';
 
 export function getPageHistoryTool( server: McpServer ): RegisteredTool {
@@ -51,12 +52,7 @@ async function handleGetPageHistoryTool(
 			params
 		);
 	} catch ( error ) {
-		return {
-			content: [
-				{ type: 'text', text: `Failed to retrieve page history: ${ ( error as Error ).message }` } as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Failed to retrieve page history', error );
 	}
 
 	if ( data.revisions.length === 0 ) {
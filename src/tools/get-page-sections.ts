@@ -0,0 +1,81 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { errorResult } from '../common/errors.js';
+
+interface ParsedSection {
+	toclevel: number;
+	level: string;
+	line: string;
+	number: string;
+	/**
+	 * Section index, or "T-n" for sections transcluded from another page.
+	 */
+	index: string;
+	fromtitle: string | false;
+	byteoffset: number | null;
+	anchor: string;
+}
+
+export function getPageSectionsTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'get-page-sections',
+		'Returns the section outline of a wiki page: each section\'s index, number, level, heading and anchor. Use the index with get-section, update-section and append-section. Section 0 is the lead before the first heading.',
+		{
+			title: z.string().describe( 'Wiki page title' )
+		},
+		{
+			title: 'Get page sections',
+			readOnlyHint: true,
+			destructiveHint: false
+		} as ToolAnnotations,
+		async ( { title } ) => handleGetPageSectionsTool( title )
+	);
+}
+
+async function handleGetPageSectionsTool( title: string ): Promise<CallToolResult> {
+	let sections: ParsedSection[];
+	let revisionId: number;
+	try {
+		const mwn = await getMwn();
+		const response = await mwn.request( {
+			action: 'parse',
+			page: title,
+			prop: 'sections|revid'
+		} );
+		sections = response.parse.sections as ParsedSection[];
+		revisionId = response.parse.revid as number;
+	} catch ( error ) {
+		return errorResult( 'Failed to retrieve page sections', error );
+	}
+
+	return {
+		content: getPageSectionsToolResult( title, revisionId, sections )
+	};
+}
+
+function getPageSectionsToolResult(
+	title: string, revisionId: number, sections: ParsedSection[]
+): TextContent[] {
+	const outline = sections.map( ( section ) => {
+		const indent = '  '.repeat( section.toclevel - 1 );
+		const transcluded = section.fromtitle && section.fromtitle.replace( /_/g, ' ' ) !== title.replace( /_/g, ' ' ) ?
+			` (transcluded from ${ section.fromtitle.replace( /_/g, ' ' ) }, not editable here)` :
+			'';
+		return `${ indent }[${ section.index }] ${ section.number } ${ section.line } (level ${ section.level }, #${ section.anchor })${ transcluded }`;
+	} );
+
+	return [
+		{
+			type: 'text',
+			text: `Sections of ${ title } at revision ${ revisionId }:`
+		},
+		{
+			type: 'text',
+			text: [ '[0] Lead', ...outline ].join( '\n' )
+		}
+	];
+}
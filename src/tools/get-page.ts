@@ -6,6 +6,7 @@ import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontext
 import { makeRestGetRequest } from '../common/utils.js';
 import type { MwRestApiPageObject } from '../types/mwRestApi.js';
 import { ContentFormat, getSubEndpoint } from '../common/mwRestApiContentFormat.js';
+import { errorResult } from '../common/errors.js';
 
 export function getPageTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -46,12 +47,7 @@ async function handleGetPageTool(
 			content: getPageToolResult( data, content, metadata )
 		};
 	} catch ( error ) {
-		return {
-			content: [
-				{ type: 'text', text: `Failed to retrieve page data: ${ ( error as Error ).message }` } as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Failed to retrieve page data', error );
 	}
 }
 
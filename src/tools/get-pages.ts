@@ -0,0 +1,236 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiParams, Mwn } from 'mwn';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { classifiedErrorResult, errorResult } from '../common/errors.js';
+
+/**
+ * Titles or page IDs per query: the Action API's limit for accounts
+ * without the apihighlimits right.
+ */
+const CHUNK_SIZE = 50;
+
+/**
+ * Most pages fetched in one call.
+ */
+const MAX_PAGES = 500;
+
+interface QueryPage {
+	pageid?: number;
+	ns?: number;
+	title?: string;
+	missing?: boolean;
+	invalid?: boolean;
+	invalidreason?: string;
+	special?: boolean;
+	redirect?: boolean;
+	contentmodel?: string;
+	revisions?: {
+		revid: number;
+		timestamp: string;
+		slots?: { main?: { content?: string } };
+	}[];
+}
+
+interface QueryResult {
+	pages: Map<string, QueryPage>;
+	/**
+	 * Requested title to the title it was normalized to, e.g. "foo bar" to "Foo bar".
+	 */
+	normalized: Map<string, string>;
+	/**
+	 * Redirect title to its target, when redirects are followed.
+	 */
+	redirects: Map<string, string>;
+	/**
+	 * Interwiki titles, which aren't pages on this wiki.
+	 */
+	interwiki: Set<string>;
+}
+
+export function getPagesTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'get-pages',
+		`Returns many wiki pages in one call, by title or page ID (up to ${ MAX_PAGES }), with their source and latest revision ID. Missing, invalid and redirect pages are marked per page. Prefer this over repeated get-page calls.`,
+		{
+			titles: z.array( z.string() ).optional().describe( 'Wiki page titles' ),
+			pageIds: z.array( z.number().int().positive() ).optional().describe( 'Page IDs' ),
+			content: z.boolean().optional().default( true ).describe( 'Whether to include the source of each page. When false, only metadata is returned' ),
+			followRedirects: z.boolean().optional().default( false ).describe( 'Return the target of redirect pages instead of the redirect itself' )
+		},
+		{
+			title: 'Get pages',
+			readOnlyHint: true,
+			destructiveHint: false
+		} as ToolAnnotations,
+		async (
+			{ titles, pageIds, content, followRedirects }
+		) => handleGetPagesTool( titles ?? [], pageIds ?? [], content, followRedirects )
+	);
+}
+
+async function handleGetPagesTool(
+	titles: string[], pageIds: number[], content: boolean, followRedirects: boolean
+): Promise<CallToolResult> {
+	const count = titles.length + pageIds.length;
+	if ( count === 0 || count > MAX_PAGES ) {
+		return classifiedErrorResult(
+			count === 0 ? 'Failed to retrieve pages: no titles or page IDs given' : `Failed to retrieve pages: ${ count } requested, at most ${ MAX_PAGES } allowed`,
+			{ code: 'unknown', hint: `Pass between 1 and ${ MAX_PAGES } titles or page IDs, and split larger sets over several calls.` }
+		);
+	}
+
+	let byTitle: QueryResult;
+	let byId: QueryResult;
+	try {
+		const mwn = await getMwn();
+		// Redirects are resolved by title: a page ID query that follows
+		// redirects leaves out the redirect pages, and with them their IDs
+		byId = await queryPages( mwn, 'pageids', [ ...new Set( pageIds.map( String ) ) ], content, false );
+		const redirectTitles = followRedirects ? getRedirectTitles( byId ) : [];
+		byTitle = await queryPages( mwn, 'titles', [ ...new Set( [ ...titles, ...redirectTitles ] ) ], content, followRedirects );
+	} catch ( error ) {
+		return errorResult( 'Failed to retrieve pages', error );
+	}
+
+	return {
+		content: [
+			...titles.map( ( title ) => getTitleResult( title, byTitle, content ) ),
+			...pageIds.map( ( pageId ) => getPageIdResult( pageId, byId, byTitle, content ) )
+		]
+	};
+}
+
+/**
+ * Query pages in chunks, following continuation: when the pages' content
+ * doesn't fit in one response, the rest of the revisions come in the next.
+ *
+ * @param {Mwn} mwn API client
+ * @param {string} field Whether the values are titles or page IDs
+ * @param {string[]} values Titles or page IDs
+ * @param {boolean} content Whether to fetch the source of the pages
+ * @param {boolean} followRedirects Whether to resolve redirects
+ * @return {Promise<QueryResult>}
+ */
+async function queryPages(
+	mwn: Mwn, field: 'titles' | 'pageids', values: string[], content: boolean, followRedirects: boolean
+): Promise<QueryResult> {
+	const result: QueryResult = {
+		pages: new Map(),
+		normalized: new Map(),
+		redirects: new Map(),
+		interwiki: new Set()
+	};
+	for ( let i = 0; i < values.length; i += CHUNK_SIZE ) {
+		const params: ApiParams = {
+			action: 'query',
+			prop: 'info|revisions',
+			rvprop: content ? 'ids|timestamp|content' : 'ids|timestamp',
+			rvslots: 'main',
+			redirects: followRedirects,
+			[ field ]: values.slice( i, i + CHUNK_SIZE ),
+			formatversion: '2'
+		};
+		for await ( const response of mwn.continuedQueryGen( params ) ) {
+			for ( const { from, to } of response.query?.normalized ?? [] ) {
+				result.normalized.set( from, to );
+			}
+			for ( const { from, to } of response.query?.redirects ?? [] ) {
+				result.redirects.set( from, to );
+			}
+			for ( const { title } of response.query?.interwiki ?? [] ) {
+				result.interwiki.add( title );
+			}
+			for ( const page of ( response.query?.pages ?? [] ) as QueryPage[] ) {
+				const key = getPageKey( field, page );
+				const known = result.pages.get( key );
+				result.pages.set( key, {
+					...known,
+					...page,
+					revisions: page.revisions ?? known?.revisions
+				} );
+			}
+		}
+	}
+	return result;
+}
+
+function getRedirectTitles( result: QueryResult ): string[] {
+	return [ ...result.pages.values() ]
+		.filter( ( page ) => page.redirect && page.title !== undefined )
+		.map( ( page ) => page.title as string );
+}
+
+function getPageKey( field: 'titles' | 'pageids', page: QueryPage ): string {
+	return field === 'pageids' && page.pageid !== undefined ? String( page.pageid ) : page.title ?? '';
+}
+
+function getTitleResult( requested: string, result: QueryResult, content: boolean ): TextContent {
+	if ( result.interwiki.has( requested ) ) {
+		return markerResult( requested, 'Invalid: interwiki title, not a page on this wiki' );
+	}
+	const normalized = result.normalized.get( requested ) ?? requested;
+	const target = result.redirects.get( normalized );
+	const page = result.pages.get( target ?? normalized );
+	const redirectedFrom = target === undefined ? undefined : normalized;
+	return getPageResult( requested, page, content, redirectedFrom );
+}
+
+function getPageIdResult(
+	pageId: number, byId: QueryResult, byTitle: QueryResult, content: boolean
+): TextContent {
+	const page = byId.pages.get( String( pageId ) );
+	const target = page?.title === undefined ? undefined : byTitle.redirects.get( page.title );
+	if ( target !== undefined ) {
+		return getPageResult( `page ID ${ pageId }`, byTitle.pages.get( target ), content, page?.title );
+	}
+	return getPageResult( `page ID ${ pageId }`, page, content );
+}
+
+function getPageResult(
+	requested: string, page: QueryPage | undefined, content: boolean, redirectedFrom?: string
+): TextContent {
+	if ( !page ) {
+		return markerResult( requested, 'Missing: not returned by the wiki' );
+	}
+	if ( page.invalid ) {
+		return markerResult( requested, `Invalid: ${ page.invalidreason ?? 'the title is not valid' }` );
+	}
+	if ( page.special ) {
+		return markerResult( requested, 'Missing: special pages have no source' );
+	}
+	const revision = page.revisions?.[ 0 ];
+	if ( page.missing || !revision ) {
+		return markerResult( requested, redirectedFrom === undefined ?
+			'Missing: the page does not exist' :
+			`Missing: redirect to ${ page.title }, which does not exist` );
+	}
+
+	const lines = [
+		`Requested: ${ requested }`,
+		`Page ID: ${ page.pageid }`,
+		`Title: ${ page.title }`,
+		`Latest revision ID: ${ revision.revid }`,
+		`Latest revision timestamp: ${ revision.timestamp }`,
+		`Content model: ${ page.contentmodel ?? 'unknown' }`
+	];
+	if ( redirectedFrom !== undefined ) {
+		lines.push( `Redirected from: ${ redirectedFrom }` );
+	} else if ( page.redirect ) {
+		lines.push( 'Redirect: yes (the source is the redirect itself; pass followRedirects=true to get its target)' );
+	}
+	if ( content ) {
+		lines.push( `Source:\n${ revision.slots?.main?.content ?? 'Not available' }` );
+	}
+	return { type: 'text', text: lines.join( '\n' ) };
+}
+
+function markerResult( requested: string, marker: string ): TextContent {
+	return {
+		type: 'text',
+		text: `Requested: ${ requested }\n${ marker }`
+	};
+}
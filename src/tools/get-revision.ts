@@ -6,6 +6,7 @@ import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontext
 import { makeRestGetRequest } from '../common/utils.js';
 import type { MwRestApiRevisionObject } from '../types/mwRestApi.js';
 import { ContentFormat, getSubEndpoint } from '../common/mwRestApiContentFormat.js';
+import { errorResult } from '../common/errors.js';
 
 export function getRevisionTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -48,12 +49,7 @@ async function handleGetRevisionTool(
 			content: getRevisionToolResult( data, content, metadata )
 		};
 	} catch ( error ) {
-		return {
-			content: [
-				{ type: 'text', text: `Failed to retrieve revision data: ${ ( error as Error ).message }` } as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Failed to retrieve revision data', error );
 	}
 }
 
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiPage, ApiRevision } from 'mwn';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { classifiedErrorResult, errorResult } from '../common/errors.js';
+
+export function getSectionTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'get-section',
+		'Returns the source of one section of a wiki page, with the revision ID required by update-section. Use get-page-sections to find section indexes.',
+		{
+			title: z.string().describe( 'Wiki page title' ),
+			section: z.number().int().min( 0 ).describe( 'Section index from get-page-sections (0 for the lead)' )
+		},
+		{
+			title: 'Get section',
+			readOnlyHint: true,
+			destructiveHint: false
+		} as ToolAnnotations,
+		async ( { title, section } ) => handleGetSectionTool( title, section )
+	);
+}
+
+async function handleGetSectionTool( title: string, section: number ): Promise<CallToolResult> {
+	let page: ApiPage;
+	try {
+		const mwn = await getMwn();
+		page = await mwn.read( title, {
+			rvprop: 'ids|content|timestamp',
+			rvsection: section,
+			redirects: false
+		} );
+	} catch ( error ) {
+		return errorResult( 'Failed to retrieve section', error );
+	}
+
+	const revision = page.revisions?.[ 0 ];
+	if ( page.missing || !revision ) {
+		return classifiedErrorResult( `Failed to retrieve section: ${ title } does not exist`, {
+			code: 'not-found',
+			hint: 'Check the title; search-page and search-page-by-prefix find existing pages.'
+		} );
+	}
+
+	return {
+		content: getSectionToolResult( page.title, section, revision )
+	};
+}
+
+function getSectionToolResult(
+	title: string, section: number, revision: ApiRevision
+): TextContent[] {
+	return [
+		{
+			type: 'text',
+			text: [
+				`Title: ${ title }`,
+				`Section: ${ section }`,
+				`Latest revision ID: ${ revision.revid }`,
+				`Latest revision timestamp: ${ revision.timestamp }`
+			].join( '\n' )
+		},
+		{
+			type: 'text',
+			text: `Source:\n${ revision.content ?? '' }`
+		}
+	];
+}
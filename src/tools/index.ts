@@ -1,8 +1,16 @@
+import { z } from 'zod';
 /* eslint-disable n/no-missing-import */
-import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { McpServer, RegisteredTool, ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 /* eslint-enable n/no-missing-import */
+import { wikiService } from '../common/wikiService.js';
+import { isWikiAllowed, runWithWiki } from '../common/session.js';
+import { isToolAllowedOnWiki } from '../common/profiles.js';
+import { WIKI_RESOURCE_URI_PREFIX } from '../common/constants.js';
+import { classifiedErrorResult } from '../common/errors.js';
 
 import { getPageTool } from './get-page.js';
+import { getPagesTool } from './get-pages.js';
 import { getPageHistoryTool } from './get-page-history.js';
 import { searchPageTool } from './search-page.js';
 import { setWikiTool } from './set-wiki.js';
@@ -18,9 +26,24 @@ import { getRevisionTool } from './get-revision.js';
 import { undeletePageTool } from './undelete-page.js';
 import { getCategoryMembersTool } from './get-category-members.js';
 import { searchPageByPrefixTool } from './search-page-by-prefix.js';
+import { listPendingProposalsTool } from './list-pending-proposals.js';
+import { approveProposalTool } from './approve-proposal.js';
+import { rejectProposalTool } from './reject-proposal.js';
+import { previewEditTool } from './preview-edit.js';
+import { whoamiTool } from './whoami.js';
+import { getPageSectionsTool } from './get-page-sections.js';
+import { getSectionTool } from './get-section.js';
+import { updateSectionTool } from './update-section.js';
+import { appendSectionTool } from './append-section.js';
+import { movePageTool } from './move-page.js';
+import { applyEditsTool } from './apply-edits.js';
+import { revertPageTool } from './revert-page.js';
+import { undoRevisionTool } from './undo-revision.js';
+import { rollbackUserEditsTool } from './rollback-user-edits.js';
 
 const toolRegistrars = [
 	getPageTool,
+	getPagesTool,
 	getPageHistoryTool,
 	searchPageTool,
 	setWikiTool,
@@ -35,14 +58,138 @@ const toolRegistrars = [
 	getRevisionTool,
 	undeletePageTool,
 	getCategoryMembersTool,
-	searchPageByPrefixTool
+	searchPageByPrefixTool,
+	listPendingProposalsTool,
+	approveProposalTool,
+	rejectProposalTool,
+	previewEditTool,
+	whoamiTool,
+	getPageSectionsTool,
+	getSectionTool,
+	updateSectionTool,
+	appendSectionTool,
+	movePageTool,
+	applyEditsTool,
+	revertPageTool,
+	undoRevisionTool,
+	rollbackUserEditsTool
 ];
 
-export function registerAllTools( server: McpServer ): RegisteredTool[] {
+/**
+ * Tools that select or manage wikis, which don't take a wiki argument.
+ */
+const wikiManagementRegistrars = [ setWikiTool, addWikiTool, removeWikiTool ];
+
+function unknownWikiResult( wikiKey: string ): CallToolResult {
+	return classifiedErrorResult( `${ WIKI_RESOURCE_URI_PREFIX }${ wikiKey } not found in MCP resources.`, {
+		code: 'not-found',
+		hint: 'List the MCP resources for the configured wikis, or add this one with add-wiki.'
+	} );
+}
+
+function wikiNotAllowedResult( wikiKey: string ): CallToolResult {
+	return classifiedErrorResult( `Access to ${ WIKI_RESOURCE_URI_PREFIX }${ wikiKey } is not allowed for this client.`, {
+		code: 'permission-denied',
+		hint: 'Use one of the wikis allowed for this client\'s API key.'
+	} );
+}
+
+function toolNotAllowedResult( toolName: string, wikiKey: string ): CallToolResult {
+	return classifiedErrorResult( `${ toolName } is not allowed on ${ WIKI_RESOURCE_URI_PREFIX }${ wikiKey } by its permission profile.`, {
+		code: 'permission-denied',
+		hint: 'whoami lists the tools allowed on the current wiki.'
+	} );
+}
+
+/**
+ * Add an optional wiki argument to a tool. When given, the call runs against
+ * that wiki instead of the one selected with set-wiki, without changing it.
+ * Calls against a wiki the session's client may not use, or whose
+ * permission profile doesn't allow the tool, are refused.
+ *
+ * @param {string} name Name of the tool
+ * @param {RegisteredTool} tool Registered tool
+ */
+function addWikiArgument( name: string, tool: RegisteredTool ): void {
+	const shape = ( tool.inputSchema as z.ZodObject | undefined )?.shape ?? {};
+	const handler = tool.handler as ToolCallback<z.ZodRawShape>;
+
+	tool.update( {
+		paramsSchema: {
+			...shape,
+			wiki: z.string().optional().describe( `Wiki to use for this call, as a key or ${ WIKI_RESOURCE_URI_PREFIX }<key> URI. Defaults to the wiki selected with set-wiki` )
+		},
+		callback: ( { wiki, ...args }, extra ) => {
+			const run = (): CallToolResult | Promise<CallToolResult> => {
+				const { key } = wikiService.getCurrent();
+				if ( !isWikiAllowed( key ) ) {
+					return wikiNotAllowedResult( key );
+				}
+				if ( !isToolAllowedOnWiki( name, key ) ) {
+					return toolNotAllowedResult( name, key );
+				}
+				return handler( args, extra );
+			};
+			if ( wiki === undefined ) {
+				return run();
+			}
+			const wikiKey = wiki.startsWith( WIKI_RESOURCE_URI_PREFIX ) ?
+				wiki.slice( WIKI_RESOURCE_URI_PREFIX.length ) :
+				wiki;
+			if ( !wikiService.get( wikiKey ) ) {
+				return unknownWikiResult( wikiKey );
+			}
+			return runWithWiki( wikiKey, run );
+		}
+	} );
+}
+
+/**
+ * Call a registrar, capturing the name it registers its tool under.
+ *
+ * @param {McpServer} server MCP server
+ * @param {Function} registrar Registers one tool
+ * @return {{name: string, tool: RegisteredTool}}
+ */
+function registerNamedTool(
+	server: McpServer, registrar: ( server: McpServer ) => RegisteredTool
+): { name: string; tool: RegisteredTool } {
+	const registerTool = server.tool.bind( server ) as (
+		name: string, ...rest: unknown[]
+	) => RegisteredTool;
+	let name = '';
+	const recordingServer = Object.assign( Object.create( server ) as McpServer, {
+		tool: ( toolName: string, ...rest: unknown[] ): RegisteredTool => {
+			name = toolName;
+			return registerTool( toolName, ...rest );
+		}
+	} );
+	const tool = registrar( recordingServer );
+	return { name, tool };
+}
+
+/**
+ * Register the tools, or only those in allowedTools when given.
+ *
+ * @param {McpServer} server MCP server
+ * @param {string[]} [allowedTools] Names of the tools to register
+ * @return {RegisteredTool[]}
+ */
+export function registerAllTools(
+	server: McpServer, allowedTools?: readonly string[]
+): RegisteredTool[] {
 	const registeredTools: RegisteredTool[] = [];
 	for ( const registrar of toolRegistrars ) {
 		try {
-			registeredTools.push( registrar( server ) );
+			const { name, tool } = registerNamedTool( server, registrar );
+			if ( allowedTools && !allowedTools.includes( name ) ) {
+				tool.remove();
+				continue;
+			}
+			if ( !wikiManagementRegistrars.includes( registrar ) ) {
+				addWikiArgument( name, tool );
+			}
+			registeredTools.push( tool );
 		} catch ( error ) {
 			console.error( `Error registering tool: ${ ( error as Error ).message }` );
 		}
@@ -0,0 +1,208 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiPage, ApiRevision, Mwn } from 'mwn';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import {
+	findPendingProposals,
+	getStatusTemplateTitles,
+	getWrapperTemplateTitle
+} from '../common/proposals.js';
+import type { PendingProposal } from '../common/proposals.js';
+import { errorResult } from '../common/errors.js';
+import { getVerificationPolicy } from '../middleware/verificationPolicy.js';
+import type { VerificationPolicy } from '../middleware/verificationPolicy.js';
+
+interface ProposalRevision {
+	revid: number;
+	user: string;
+	timestamp: string;
+	/**
+	 * True when the claim is present in every fetched revision,
+	 * so it was added at or before this revision.
+	 */
+	atOrBefore: boolean;
+}
+
+export function listPendingProposalsTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'list-pending-proposals',
+		'Lists claims awaiting human review: content wrapped in {{Bot_proposes}} and templates with status=proposed or status=unverified. Each claim is returned with its page, section, proposer, the revision that added it, and a claim ID for approve-proposal and reject-proposal.',
+		{
+			titles: z.array( z.string() ).optional().describe( 'Page titles to check. If omitted, pages transcluding Bot_proposes or a status-capable template are checked' ),
+			limit: z.number().int().min( 1 ).max( 500 ).optional().default( 50 ).describe( 'Maximum number of pages to check' ),
+			historyDepth: z.number().int().min( 1 ).max( 50 ).optional().default( 20 ).describe( 'Number of revisions to search when finding the revision that added each claim' )
+		},
+		{
+			title: 'List pending proposals',
+			readOnlyHint: true,
+			destructiveHint: false
+		} as ToolAnnotations,
+		async (
+			{ titles, limit, historyDepth }
+		) => handleListPendingProposalsTool( titles, limit, historyDepth )
+	);
+}
+
+async function handleListPendingProposalsTool(
+	titles: string[] | undefined, limit: number, historyDepth: number
+): Promise<CallToolResult> {
+	const results: TextContent[] = [];
+	try {
+		const mwn = await getMwn();
+		const policy = getVerificationPolicy();
+		const candidates = titles ?? await findCandidateTitles( mwn, policy, limit );
+		if ( candidates.length === 0 ) {
+			return {
+				content: [ { type: 'text', text: 'No pending proposals found' } as TextContent ]
+			};
+		}
+
+		const pages = [ await mwn.read( candidates.slice( 0, limit ) ) ].flat();
+		for ( const page of pages ) {
+			const source = getPageContent( page );
+			if ( source === undefined ) {
+				continue;
+			}
+
+			const proposals = findPendingProposals( source, policy );
+			if ( proposals.length === 0 ) {
+				continue;
+			}
+
+			const revisions = await fetchRecentRevisions( mwn, page.title, historyDepth );
+			for ( const proposal of proposals ) {
+				results.push( getPendingProposalToolResult(
+					page.title, proposal, findIntroducingRevision( revisions, proposal )
+				) );
+			}
+		}
+	} catch ( error ) {
+		return errorResult( 'Failed to list pending proposals', error );
+	}
+
+	if ( results.length === 0 ) {
+		return {
+			content: [ { type: 'text', text: 'No pending proposals found' } as TextContent ]
+		};
+	}
+
+	return { content: results };
+}
+
+async function findCandidateTitles(
+	mwn: Mwn, policy: VerificationPolicy, limit: number
+): Promise<string[]> {
+	const titles = new Set<string>();
+	const templates = [ getWrapperTemplateTitle( policy ), ...getStatusTemplateTitles( policy ) ];
+
+	for ( const template of templates ) {
+		if ( titles.size >= limit ) {
+			break;
+		}
+		const response = await mwn.request( {
+			action: 'query',
+			list: 'embeddedin',
+			eititle: template,
+			eilimit: limit
+		} );
+		for ( const page of response.query?.embeddedin ?? [] ) {
+			titles.add( page.title );
+		}
+	}
+
+	return [ ...titles ].slice( 0, limit );
+}
+
+function getPageContent( page: ApiPage ): string | undefined {
+	if ( page.missing || page.invalid ) {
+		return undefined;
+	}
+	return page.revisions?.[ 0 ]?.content;
+}
+
+/**
+ * Fetch the latest revisions of a page with content, newest first.
+ *
+ * @param {Mwn} mwn API client
+ * @param {string} title Page title
+ * @param {number} depth Most revisions to fetch
+ * @return {Promise<ApiRevision[]>}
+ */
+async function fetchRecentRevisions(
+	mwn: Mwn, title: string, depth: number
+): Promise<ApiRevision[]> {
+	const response = await mwn.request( {
+		action: 'query',
+		prop: 'revisions',
+		titles: title,
+		rvprop: 'ids|user|timestamp|content',
+		rvslots: 'main',
+		rvlimit: depth
+	} );
+	return response.query?.pages?.[ 0 ]?.revisions ?? [];
+}
+
+/**
+ * Walk back through the history until the claim disappears.
+ * The oldest revision in the unbroken run containing it is the one that added it.
+ *
+ * @param {ApiRevision[]} revisions Revisions of the page, newest first
+ * @param {PendingProposal} proposal Claim to look for
+ * @return {ProposalRevision|null} Null when the claim is older than the revisions
+ */
+function findIntroducingRevision(
+	revisions: ApiRevision[], proposal: PendingProposal
+): ProposalRevision | null {
+	let introducing: ApiRevision | null = null;
+	for ( const revision of revisions ) {
+		if ( !revision.slots?.main.content?.includes( proposal.raw ) ) {
+			break;
+		}
+		introducing = revision;
+	}
+
+	if ( !introducing || introducing.revid === undefined ) {
+		return null;
+	}
+
+	return {
+		revid: introducing.revid,
+		user: introducing.user ?? 'Unknown',
+		timestamp: introducing.timestamp ?? 'Unknown',
+		atOrBefore: introducing === revisions[ revisions.length - 1 ] && introducing.parentid !== 0
+	};
+}
+
+function getPendingProposalToolResult(
+	title: string, proposal: PendingProposal, revision: ProposalRevision | null
+): TextContent {
+	const lines = [
+		`Claim ID: ${ proposal.id }`,
+		`Page: ${ title }`,
+		`Section: ${ proposal.section ?? '(lead)' }`,
+		`Type: ${ proposal.kind === 'wrapper' ? 'wrapper template' : `status=${ proposal.status } on ${ proposal.content } template` }`,
+		`Proposer: ${ proposal.proposer ?? revision?.user ?? 'Unknown' }`
+	];
+
+	if ( revision ) {
+		lines.push(
+			`Added in revision: ${ revision.atOrBefore ? 'at or before ' : '' }${ revision.revid } by ${ revision.user } at ${ revision.timestamp }`
+		);
+	} else {
+		lines.push( 'Added in revision: Unknown' );
+	}
+
+	if ( proposal.kind === 'wrapper' ) {
+		lines.push( `Claim: ${ proposal.content }` );
+	} else if ( proposal.fields ) {
+		lines.push( `Proposed fields: ${ proposal.fields.join( ', ' ) }` );
+	}
+
+	return {
+		type: 'text',
+		text: lines.join( '\n' )
+	};
+}
@@ -0,0 +1,308 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { Mwn } from 'mwn';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { getPageUrl, formatEditComment } from '../common/utils.js';
+import { retargetLinks } from '../common/wikitext.js';
+import { classifyError, errorResult } from '../common/errors.js';
+import { pipeline } from '../middleware/index.js';
+import type { EditContext, MoveContext } from '../middleware/types.js';
+
+/**
+ * Linking pages listed in the result when they are not fixed.
+ */
+const MAX_LISTED_PAGES = 20;
+
+interface MoveResult {
+	from: string;
+	to: string;
+	redirectcreated?: boolean;
+	talkfrom?: string;
+	talkto?: string;
+	'talkmove-error-info'?: string;
+	subpages?: ( { from: string; to: string } | { error: { info?: string } } )[];
+}
+
+interface Backlinks {
+	titles: string[];
+	/**
+	 * Whether there were more than the API returns in one request.
+	 */
+	incomplete: boolean;
+}
+
+interface LinkFix {
+	title: string;
+	links: number;
+	error?: string;
+	/**
+	 * The middleware's answer, when it halted the edit.
+	 */
+	skipped?: string;
+}
+
+export function movePageTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'move-page',
+		'Moves (renames) a wiki page, optionally with its talk page and subpages. Redirects to the old title are pointed at the new one so they don\'t become double redirects. Pages linking to the old title are listed, and with fixLinks their links are rewritten to the new title, keeping the displayed text.',
+		{
+			title: z.string().describe( 'Current title of the page' ),
+			target: z.string().describe( 'New title of the page' ),
+			comment: z.string().optional().describe( 'Reason for moving the page' ),
+			leaveRedirect: z.boolean().default( true ).describe( 'Leave a redirect from the old title to the new one' ),
+			moveTalk: z.boolean().default( true ).describe( 'Move the talk page too, if it exists' ),
+			moveSubpages: z.boolean().default( false ).describe( 'Move subpages (and talk subpages) too, where the namespace has subpages' ),
+			fixRedirects: z.boolean().default( true ).describe( 'Point redirects to the old title at the new one' ),
+			fixLinks: z.boolean().default( false ).describe( 'Rewrite links to the old title on other pages. When false, the linking pages are only listed' )
+		},
+		{
+			title: 'Move page',
+			readOnlyHint: false,
+			destructiveHint: true
+		} as ToolAnnotations,
+		async ( {
+			title, target, comment, leaveRedirect, moveTalk, moveSubpages, fixRedirects, fixLinks
+		} ) => {
+			const context: MoveContext = {
+				tool: 'move-page',
+				title,
+				target,
+				comment,
+				leaveRedirect,
+				moveTalk,
+				moveSubpages,
+				fixRedirects,
+				fixLinks
+			};
+			return pipeline.wrapHandler( context, handleMovePageToolWithContext );
+		}
+	);
+}
+
+async function handleMovePageToolWithContext( context: MoveContext ): Promise<CallToolResult> {
+	let mwn: Mwn;
+	let data: MoveResult;
+	try {
+		mwn = await getMwn();
+		data = await mwn.move( context.title, context.target, formatEditComment( 'move-page', context.comment ), {
+			noredirect: !context.leaveRedirect,
+			movetalk: context.moveTalk,
+			movesubpages: context.moveSubpages
+		} ) as MoveResult;
+	} catch ( error ) {
+		return errorResult( 'Failed to move page', error );
+	}
+
+	// The page has moved at this point, so failures to find or fix the pages
+	// pointing at it are reported alongside the move instead of as an error
+	const followUp: TextContent[] = [];
+	try {
+		if ( context.fixRedirects ) {
+			const redirects = await getBacklinks( mwn, data.from, 'redirects' );
+			const fixes = await fixBacklinks( mwn, redirects.titles, data.from, data.to, false );
+			followUp.push( redirectFixesResult( fixes, redirects.incomplete ) );
+		}
+
+		const linking = await getBacklinks( mwn, data.from, 'nonredirects' );
+		if ( context.fixLinks ) {
+			const fixes = await fixBacklinks( mwn, linking.titles, data.from, data.to, true );
+			followUp.push( linkFixesResult( fixes, linking.incomplete ) );
+		} else {
+			followUp.push( linkingPagesResult( linking ) );
+		}
+	} catch ( error ) {
+		followUp.push( {
+			type: 'text',
+			text: `Failed to check pages pointing at the old title: ${ classifyError( error ).message }`
+		} );
+	}
+
+	return {
+		content: [ ...movePageToolResult( data ), ...followUp ]
+	};
+}
+
+async function getBacklinks(
+	mwn: Mwn, title: string, filter: 'redirects' | 'nonredirects'
+): Promise<Backlinks> {
+	const response = await mwn.request( {
+		action: 'query',
+		list: 'backlinks',
+		bltitle: title,
+		blfilterredir: filter,
+		bllimit: 'max',
+		formatversion: '2'
+	} );
+	const backlinks = ( response.query?.backlinks ?? [] ) as { title: string }[];
+	return {
+		titles: backlinks.map( ( page ) => page.title ),
+		incomplete: response.continue !== undefined
+	};
+}
+
+/**
+ * Rewrite links to the old title on each page. Each edit goes through the
+ * middleware pipeline as an update-page edit, like any other, and pages
+ * the middleware refuses are skipped.
+ *
+ * @param {Mwn} mwn Client of the current wiki
+ * @param {string[]} titles Pages to fix
+ * @param {string} from Old title of the moved page
+ * @param {string} to New title of the moved page
+ * @param {boolean} keepText Whether links keep showing the old title
+ * @return {Promise<LinkFix[]>} What was done on each page
+ */
+async function fixBacklinks(
+	mwn: Mwn, titles: string[], from: string, to: string, keepText: boolean
+): Promise<LinkFix[]> {
+	const comment = `Update links after moving [[${ from }]] to [[${ to }]]`;
+	const fixes: LinkFix[] = [];
+	for ( const title of titles ) {
+		let links = 0;
+		try {
+			const page = await mwn.read( title, { rvprop: 'ids|content', redirects: false } );
+			const revision = page.revisions?.[ 0 ];
+			const retargeted = retargetLinks( revision?.content ?? '', from, to, keepText );
+			links = retargeted.count;
+			if ( revision && links > 0 ) {
+				const context: EditContext = {
+					tool: 'update-page',
+					title,
+					source: retargeted.text,
+					comment,
+					latestId: revision.revid
+				};
+				const fix = await saveLinkFix( mwn, context );
+				if ( fix ) {
+					fixes.push( { title, links, ...fix } );
+					continue;
+				}
+			}
+			fixes.push( { title, links } );
+		} catch ( error ) {
+			fixes.push( { title, links, error: classifyError( error ).message } );
+		}
+	}
+	return fixes;
+}
+
+/**
+ * Save a link fix through the middleware pipeline.
+ *
+ * @param {Mwn} mwn Client of the current wiki
+ * @param {EditContext} context The edit
+ * @return {Promise<Object|undefined>} Why the page was not updated, or
+ *  undefined when it was
+ */
+async function saveLinkFix(
+	mwn: Mwn, context: EditContext
+): Promise<Pick<LinkFix, 'error' | 'skipped'> | undefined> {
+	let saved = false;
+	let failure: string | undefined;
+	const result = await pipeline.wrapHandler( context, async ( ctx: EditContext ) => {
+		try {
+			await mwn.save( ctx.title, ctx.source, formatEditComment( 'move-page', ctx.comment ), {
+				baserevid: ctx.latestId, nocreate: true, minor: true
+			} );
+		} catch ( error ) {
+			failure = classifyError( error ).message;
+			return errorResult( 'Failed to update links', error );
+		}
+		saved = true;
+		return { content: [ { type: 'text', text: `Updated links on ${ getPageUrl( ctx.title ) }` } ] };
+	} );
+	if ( saved ) {
+		return undefined;
+	}
+	// When a middleware halts the edit, its answer says why
+	return failure === undefined ? { skipped: getResultText( result ) } : { error: failure };
+}
+
+function getResultText( result: CallToolResult ): string {
+	return result.content
+		.filter( ( item ): item is TextContent => item.type === 'text' )
+		.map( ( item ) => item.text )
+		.join( ' ' );
+}
+
+function movePageToolResult( data: MoveResult ): TextContent[] {
+	const lines = [
+		`Page moved successfully: ${ data.from } → ${ data.to }: ${ getPageUrl( data.to ) }`,
+		data.redirectcreated ?
+			`A redirect was left at ${ data.from }` :
+			`No redirect was left at ${ data.from }`
+	];
+	if ( data.talkto ) {
+		lines.push( `Talk page moved: ${ data.talkfrom } → ${ data.talkto }` );
+	} else if ( data[ 'talkmove-error-info' ] ) {
+		lines.push( `Talk page not moved: ${ data[ 'talkmove-error-info' ] }` );
+	}
+	for ( const subpage of data.subpages ?? [] ) {
+		lines.push( 'error' in subpage ?
+			`Subpage not moved: ${ subpage.error.info ?? 'unknown error' }` :
+			`Subpage moved: ${ subpage.from } → ${ subpage.to }` );
+	}
+	return [ { type: 'text', text: lines.join( '\n' ) } ];
+}
+
+function describeFixes( fixes: LinkFix[] ): string[] {
+	return fixes.map( ( fix ) => {
+		if ( fix.error ) {
+			return `- ${ fix.title }: failed: ${ fix.error }`;
+		}
+		if ( fix.skipped ) {
+			return `- ${ fix.title }: not updated: ${ fix.skipped }`;
+		}
+		return fix.links > 0 ?
+			`- ${ fix.title }: ${ fix.links } link${ fix.links === 1 ? '' : 's' } updated` :
+			`- ${ fix.title }: no link found in the source (it may come from a template)`;
+	} );
+}
+
+function redirectFixesResult( fixes: LinkFix[], incomplete: boolean ): TextContent {
+	if ( fixes.length === 0 ) {
+		return { type: 'text', text: 'No redirects pointed at the old title.' };
+	}
+	return {
+		type: 'text',
+		text: [
+			`Redirects to the old title (${ fixes.length }):`,
+			...describeFixes( fixes ),
+			...( incomplete ? [ 'More redirects point at the old title than could be fixed in one run; fix the rest with update-page.' ] : [] )
+		].join( '\n' )
+	};
+}
+
+function linkFixesResult( fixes: LinkFix[], incomplete: boolean ): TextContent {
+	if ( fixes.length === 0 ) {
+		return { type: 'text', text: 'No pages linked to the old title.' };
+	}
+	return {
+		type: 'text',
+		text: [
+			`Pages linking to the old title (${ fixes.length }):`,
+			...describeFixes( fixes ),
+			...( incomplete ? [ 'More pages link to the old title than could be fixed in one run; fix the rest with update-page.' ] : [] )
+		].join( '\n' )
+	};
+}
+
+function linkingPagesResult( linking: Backlinks ): TextContent {
+	if ( linking.titles.length === 0 ) {
+		return { type: 'text', text: 'No pages linked to the old title.' };
+	}
+	const listed = linking.titles.slice( 0, MAX_LISTED_PAGES );
+	const count = `${ linking.titles.length }${ linking.incomplete ? '+' : '' }`;
+	return {
+		type: 'text',
+		text: [
+			`Pages linking to the old title (${ count }), not changed:`,
+			...listed.map( ( title ) => `- ${ title }` ),
+			...( listed.length < linking.titles.length ? [ `- and ${ linking.titles.length - listed.length } more` ] : [] ),
+			'They still work through the redirect, if one was left. Pass fixLinks=true when moving to update them, or fix them with update-page.'
+		].join( '\n' )
+	};
+}
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiPage } from 'mwn';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { unifiedDiff } from '../common/diff.js';
+import { errorResult } from '../common/errors.js';
+import { getHaltResult, pipeline } from '../middleware/index.js';
+import type { EditContext, HaltedBy, MiddlewareTrace } from '../middleware/types.js';
+
+export function previewEditTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'preview-edit',
+		'Shows what create-page or update-page would save, without saving anything. Runs the edit through the middleware (such as verification wrapping) and returns the transformed source, a unified diff against the current revision, the changes each middleware made, and the rendered HTML.',
+		{
+			title: z.string().describe( 'Wiki page title' ),
+			source: z.string().describe( 'Page content that would be submitted' ),
+			latestId: z.number().int().positive().optional().describe( 'Revision ID used as the base for the new source. Defaults to the current revision; ignored for pages that do not exist yet' ),
+			comment: z.string().optional().describe( 'Summary of the edit' )
+		},
+		{
+			title: 'Preview edit',
+			readOnlyHint: true,
+			destructiveHint: false
+		} as ToolAnnotations,
+		async (
+			{ title, source, latestId, comment }
+		) => handlePreviewEditTool( title, source, latestId, comment )
+	);
+}
+
+async function handlePreviewEditTool(
+	title: string, source: string, latestId: number | undefined, comment: string | undefined
+): Promise<CallToolResult> {
+	try {
+		const mwn = await getMwn();
+		const page: ApiPage = await mwn.read( title, { rvprop: 'ids|content|timestamp', redirects: false } );
+		const current = page.missing ? undefined : page.revisions?.[ 0 ];
+
+		const context: EditContext = current ? {
+			tool: 'update-page',
+			title,
+			source,
+			comment,
+			latestId: latestId ?? current.revid
+		} : {
+			tool: 'create-page',
+			title,
+			source,
+			comment
+		};
+
+		const { context: transformed, trace, halted } = await pipeline.traceInput( context );
+		if ( halted ) {
+			return {
+				content: previewHaltedToolResult( context, trace, halted )
+			};
+		}
+		const html = await mwn.parseWikitext( transformed.source, { title, pst: true } );
+
+		return {
+			content: previewEditToolResult( transformed, current?.content ?? '', current?.revid, trace, html )
+		};
+	} catch ( error ) {
+		return errorResult( 'Failed to preview edit', error );
+	}
+}
+
+function describeMiddlewareChange( step: MiddlewareTrace<EditContext> ): string {
+	const changes: string[] = [];
+	if ( step.after.comment !== step.before.comment ) {
+		changes.push( `comment changed to "${ step.after.comment ?? '' }"` );
+	}
+	const diff = unifiedDiff( step.before.source, step.after.source, 'before', 'after' );
+	if ( diff ) {
+		changes.push( `source changed:\n${ diff }` );
+	}
+	return `${ step.name }: ${ changes.length > 0 ? changes.join( '; ' ) : 'no changes' }`;
+}
+
+function previewEditToolResult(
+	context: EditContext,
+	currentSource: string,
+	currentRevision: number | undefined,
+	trace: MiddlewareTrace<EditContext>[],
+	html: string
+): TextContent[] {
+	const base = currentRevision === undefined ?
+		`${ context.title } (new page)` :
+		`${ context.title } (revision ${ currentRevision })`;
+	const diff = unifiedDiff( currentSource, context.source, base, `${ context.title } (preview)` );
+
+	return [
+		{
+			type: 'text',
+			text: [
+				`Preview of ${ context.tool } for ${ context.title }. Nothing was saved.`,
+				`Base revision: ${ context.latestId ?? 'none (new page)' }`,
+				...( context.comment === undefined ? [] : [ `Comment: ${ context.comment }` ] )
+			].join( '\n' )
+		},
+		{
+			type: 'text',
+			text: [
+				'Middleware changes:',
+				...( trace.length > 0 ? trace.map( describeMiddlewareChange ) : [ 'No middleware registered' ] )
+			].join( '\n' )
+		},
+		{
+			type: 'text',
+			text: `Transformed source:\n${ context.source }`
+		},
+		{
+			type: 'text',
+			text: diff ? `Diff against current revision:\n${ diff }` : 'Diff against current revision: no changes'
+		},
+		{
+			type: 'text',
+			text: `Rendered HTML:\n${ html }`
+		}
+	];
+}
+
+function previewHaltedToolResult(
+	context: EditContext, trace: MiddlewareTrace<EditContext>[], halted: HaltedBy
+): TextContent[] {
+	const haltResult = getHaltResult( halted );
+	return [
+		{
+			type: 'text',
+			text: halted.halt.halt === 'reject' ?
+				`Preview of ${ context.tool } for ${ context.title }: the edit would be rejected by ${ halted.middleware }. Nothing was saved.` :
+				`Preview of ${ context.tool } for ${ context.title }: ${ halted.middleware } would answer the edit without saving it. Nothing was saved.`
+		},
+		{
+			type: 'text',
+			text: [
+				'Middleware changes before it stopped:',
+				...( trace.length > 0 ? trace.map( describeMiddlewareChange ) : [ 'None' ] )
+			].join( '\n' )
+		},
+		...haltResult.content.filter( ( item ): item is TextContent => item.type === 'text' )
+	];
+}
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+/* eslint-enable n/no-missing-import */
+import { getPageUrl } from '../common/utils.js';
+import {
+	ProposalResolution,
+	prepareProposalResolution,
+	saveProposalResolution
+} from '../common/proposals.js';
+import type { PendingProposal } from '../common/proposals.js';
+import { errorResult } from '../common/errors.js';
+import type { MwRestApiPageObject } from '../types/mwRestApi.js';
+import { pipeline } from '../middleware/index.js';
+import type { ProposalContext } from '../middleware/types.js';
+
+export function rejectProposalTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'reject-proposal',
+		'Rejects a pending claim found by list-pending-proposals by removing it from the page. For a template with status=proposed, the whole template is removed. The edit passes through the middleware pipeline, but the verification middleware leaves it alone.',
+		{
+			title: z.string().describe( 'Wiki page title' ),
+			claimId: z.string().describe( 'Claim ID returned by list-pending-proposals' ),
+			comment: z.string().optional().describe( 'Reason for rejecting the claim' )
+		},
+		{
+			title: 'Reject proposal',
+			readOnlyHint: false,
+			destructiveHint: true
+		} as ToolAnnotations,
+		async (
+			{ title, claimId, comment }
+		) => handleRejectProposalTool( title, claimId, comment )
+	);
+}
+
+async function handleRejectProposalTool(
+	title: string, claimId: string, comment?: string
+): Promise<CallToolResult> {
+	let prepared: { proposal: PendingProposal; source: string; latestId: number };
+	try {
+		prepared = await prepareProposalResolution( title, claimId, ProposalResolution.reject );
+	} catch ( error ) {
+		return errorResult( 'Failed to reject proposal', error );
+	}
+
+	const context: ProposalContext = {
+		tool: 'reject-proposal',
+		title,
+		claimId,
+		source: prepared.source,
+		latestId: prepared.latestId,
+		comment: comment ?? `Rejected proposed claim ${ claimId }`
+	};
+	return pipeline.wrapHandler(
+		context, ( ctx ) => handleRejectProposalToolWithContext( ctx, prepared.proposal )
+	);
+}
+
+async function handleRejectProposalToolWithContext(
+	context: ProposalContext, proposal: PendingProposal
+): Promise<CallToolResult> {
+	let page: MwRestApiPageObject;
+	try {
+		page = await saveProposalResolution( context );
+	} catch ( error ) {
+		return errorResult( 'Failed to reject proposal', error );
+	}
+
+	return {
+		content: rejectProposalToolResult( proposal, page )
+	};
+}
+
+function rejectProposalToolResult(
+	proposal: PendingProposal, page: MwRestApiPageObject
+): TextContent[] {
+	return [
+		{
+			type: 'text',
+			text: `Claim ${ proposal.id } rejected and removed: ${ getPageUrl( page.title ) }`
+		},
+		{
+			type: 'text',
+			text: [
+				`Section: ${ proposal.section ?? '(lead)' }`,
+				`Removed content: ${ proposal.kind === 'wrapper' ? proposal.content : proposal.raw }`,
+				`Latest revision ID: ${ page.latest.id }`,
+				`Latest revision timestamp: ${ page.latest.timestamp }`
+			].join( '\n' )
+		}
+	];
+}
@@ -6,6 +6,8 @@ import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontext
 import { wikiService } from '../common/wikiService.js';
 import { clearMwnCache } from '../common/mwn.js';
 import { parseWikiResourceUri, InvalidWikiResourceUriError } from '../common/wikiResource.js';
+import { classifiedErrorResult } from '../common/errors.js';
+import { isWikiAllowed, mayManageWikis } from '../common/session.js';
 
 export function removeWikiTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -28,10 +30,31 @@ async function handleRemoveWikiTool( server: McpServer, uri: string ): Promise<C
 
 		const wikiToRemove = wikiService.get( wikiKey );
 		if ( !wikiToRemove ) {
+			return classifiedErrorResult( `mcp://wikis/${ wikiKey } not found in MCP resources.`, {
+				code: 'not-found',
+				hint: 'List the MCP resources for the configured wikis, or add this one with add-wiki.'
+			} );
+		}
+
+		if ( !isWikiAllowed( wikiKey ) ) {
+			return classifiedErrorResult( `Access to mcp://wikis/${ wikiKey } is not allowed for this client.`, {
+				code: 'permission-denied',
+				hint: 'Use one of the wikis allowed for this client\'s API key.'
+			} );
+		}
+
+		if ( !mayManageWikis() ) {
+			return classifiedErrorResult( 'Removing wikis is not allowed for this client.', {
+				code: 'permission-denied',
+				hint: 'Only API keys that are not limited to some wikis may add or remove wikis.'
+			} );
+		}
+
+		if ( wikiService.getDefaultKey() === wikiKey ) {
 			return {
 				content: [ {
 					type: 'text',
-					text: `mcp://wikis/${ wikiKey } not found in MCP resources.`
+					text: 'Cannot remove the default wiki. Sessions that have not selected a wiki use it, and so does the server when it starts.'
 				} as TextContent ],
 				isError: true
 			};
@@ -49,7 +72,7 @@ async function handleRemoveWikiTool( server: McpServer, uri: string ): Promise<C
 
 		wikiService.remove( wikiKey );
 		server.sendResourceListChanged();
-		clearMwnCache();
+		clearMwnCache( wikiKey );
 
 		return {
 			content: [ {
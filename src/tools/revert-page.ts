@@ -0,0 +1,111 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+/* eslint-enable n/no-missing-import */
+import {
+	formatEditComment,
+	getPageUrl,
+	makeRestGetRequest,
+	makeRestPutRequest
+} from '../common/utils.js';
+import { classifiedErrorResult, errorResult } from '../common/errors.js';
+import type { MwRestApiPageObject, MwRestApiRevisionObject } from '../types/mwRestApi.js';
+import { pipeline } from '../middleware/index.js';
+import type { RevertContext } from '../middleware/types.js';
+
+export function revertPageTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'revert-page',
+		'Restores a wiki page to the content of an earlier revision, undoing every change made since. Use get-page-history to find the revision ID.',
+		{
+			title: z.string().describe( 'Wiki page title' ),
+			revisionId: z.number().int().positive().describe( 'ID of the revision of the page to restore' ),
+			comment: z.string().optional().describe( 'Reason for reverting the page' )
+		},
+		{
+			title: 'Revert page',
+			readOnlyHint: false,
+			destructiveHint: true
+		} as ToolAnnotations,
+		async (
+			{ title, revisionId, comment }
+		) => {
+			const context: RevertContext = {
+				tool: 'revert-page',
+				title,
+				revisionId,
+				comment
+			};
+			return pipeline.wrapHandler( context, handleRevertPageToolWithContext );
+		}
+	);
+}
+
+async function handleRevertPageToolWithContext( context: RevertContext ): Promise<CallToolResult> {
+	const path = `/v1/page/${ encodeURIComponent( context.title ) }`;
+	let current: MwRestApiPageObject;
+	let revision: MwRestApiRevisionObject;
+	try {
+		current = await makeRestGetRequest<MwRestApiPageObject>( `${ path }/bare`, undefined, true );
+		revision = await makeRestGetRequest<MwRestApiRevisionObject>( `/v1/revision/${ context.revisionId }`, undefined, true );
+	} catch ( error ) {
+		return errorResult( 'Failed to revert page', error );
+	}
+
+	if ( revision.page?.id !== current.id ) {
+		return classifiedErrorResult(
+			`Failed to revert page: revision ${ context.revisionId } is a revision of ${ revision.page?.title ?? 'another page' }, not ${ current.title }`,
+			{ code: 'not-found', hint: 'Use get-page-history to find the revisions of the page.' }
+		);
+	}
+	if ( revision.source === undefined ) {
+		return classifiedErrorResult(
+			`Failed to revert page: the content of revision ${ context.revisionId } is not available`,
+			{ code: 'permission-denied', hint: 'The revision may have been hidden by an administrator; pick another one.' }
+		);
+	}
+	if ( current.latest.id === context.revisionId ) {
+		return {
+			content: [ {
+				type: 'text',
+				text: `${ current.title } is already at revision ${ context.revisionId }. Nothing was changed.`
+			} ]
+		};
+	}
+
+	let data: MwRestApiPageObject;
+	try {
+		data = await makeRestPutRequest<MwRestApiPageObject>( path, {
+			source: revision.source,
+			comment: formatEditComment( 'revert-page', context.comment ?? `Revert to revision ${ context.revisionId }` ),
+			latest: { id: current.latest.id }
+		}, true );
+	} catch ( error ) {
+		return errorResult( 'Failed to revert page', error );
+	}
+
+	return {
+		content: revertPageToolResult( data, context.revisionId, current.latest.id )
+	};
+}
+
+function revertPageToolResult(
+	result: MwRestApiPageObject, revisionId: number, previousId: number
+): TextContent[] {
+	return [
+		{
+			type: 'text',
+			text: `Page reverted successfully to revision ${ revisionId }: ${ getPageUrl( result.title ) }`
+		},
+		{
+			type: 'text',
+			text: [
+				`Title: ${ result.title }`,
+				`Latest revision ID: ${ result.latest.id }`,
+				`Latest revision timestamp: ${ result.latest.timestamp }`,
+				`Previous revision ID: ${ previousId }`
+			].join( '\n' )
+		}
+	];
+}
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { formatEditComment, getPageUrl } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
+import { pipeline } from '../middleware/index.js';
+import type { RollbackContext } from '../middleware/types.js';
+
+interface RollbackResult {
+	title: string;
+	/**
+	 * Revision saved by the rollback.
+	 */
+	revid: number;
+	/**
+	 * Latest revision by the user, before the rollback.
+	 */
+	old_revid: number;
+	/**
+	 * Revision restored: the latest one by someone else.
+	 */
+	last_revid: number;
+}
+
+export function rollbackUserEditsTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'rollback-user-edits',
+		'Reverts all consecutive edits by one user at the top of a wiki page\'s history, restoring the latest revision by someone else. Fails if the latest revision is not by that user. Useful to back out a batch of bad edits page by page.',
+		{
+			title: z.string().describe( 'Wiki page title' ),
+			user: z.string().describe( 'User name (or IP address) whose edits are reverted' ),
+			comment: z.string().optional().describe( 'Reason for reverting the edits' )
+		},
+		{
+			title: 'Roll back user edits',
+			readOnlyHint: false,
+			destructiveHint: true
+		} as ToolAnnotations,
+		async (
+			{ title, user, comment }
+		) => {
+			const context: RollbackContext = {
+				tool: 'rollback-user-edits',
+				title,
+				user,
+				comment
+			};
+			return pipeline.wrapHandler( context, handleRollbackUserEditsToolWithContext );
+		}
+	);
+}
+
+async function handleRollbackUserEditsToolWithContext(
+	context: RollbackContext
+): Promise<CallToolResult> {
+	let data: RollbackResult;
+	try {
+		const mwn = await getMwn();
+		data = await mwn.rollback( context.title, context.user, {
+			summary: formatEditComment( 'rollback-user-edits', context.comment ?? `Revert edits by ${ context.user }` )
+		} ) as RollbackResult;
+	} catch ( error ) {
+		return errorResult( 'Failed to roll back edits', error );
+	}
+
+	return {
+		content: rollbackUserEditsToolResult( data, context.user )
+	};
+}
+
+function rollbackUserEditsToolResult( data: RollbackResult, user: string ): TextContent[] {
+	return [
+		{
+			type: 'text',
+			text: `Edits by ${ user } rolled back: ${ getPageUrl( data.title ) }`
+		},
+		{
+			type: 'text',
+			text: [
+				`Title: ${ data.title }`,
+				`Latest revision ID: ${ data.revid }`,
+				`Restored revision ID: ${ data.last_revid }`,
+				`Latest revision by ${ user } before the rollback: ${ data.old_revid }`
+			].join( '\n' )
+		}
+	];
+}
@@ -5,6 +5,7 @@ import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontext
 import type { ApiQueryAllPagesParams } from 'types-mediawiki-api';
 /* eslint-enable n/no-missing-import */
 import { getMwn } from '../common/mwn.js';
+import { errorResult } from '../common/errors.js';
 
 export function searchPageByPrefixTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -43,12 +44,7 @@ async function handleSearchPageByPrefixTool(
 
 		data = await mwn.getPagesByPrefix( prefix, options );
 	} catch ( error ) {
-		return {
-			content: [
-				{ type: 'text', text: `Failed to retrieve search data: ${ ( error as Error ).message }` } as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Failed to retrieve search data', error );
 	}
 
 	if ( data.length === 0 ) {
@@ -6,6 +6,7 @@ import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontext
 /* eslint-enable n/no-missing-import */
 import { wikiService } from '../common/wikiService.js';
 import { makeRestGetRequest } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
 import type { MwRestApiSearchPageResponse, MwRestApiSearchResultObject } from '../types/mwRestApi.js';
 
 export function searchPageTool( server: McpServer ): RegisteredTool {
@@ -35,12 +36,7 @@ async function handleSearchPageTool( query: string, limit?: number ): Promise< C
 			{ q: query, ...( limit ? { limit: limit.toString() } : {} ) }
 		);
 	} catch ( error ) {
-		return {
-			content: [
-				{ type: 'text', text: `Failed to retrieve search data: ${ ( error as Error ).message }` } as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Failed to retrieve search data', error );
 	}
 
 	const pages = data.pages || [];
@@ -5,7 +5,11 @@ import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontext
 /* eslint-enable n/no-missing-import */
 import { wikiService } from '../common/wikiService.js';
 import { clearMwnCache } from '../common/mwn.js';
+import { isWikiAllowed } from '../common/session.js';
 import { parseWikiResourceUri, InvalidWikiResourceUriError } from '../common/wikiResource.js';
+import { classifiedErrorResult } from '../common/errors.js';
+import { getVerificationPolicy } from '../middleware/verificationPolicy.js';
+import type { VerificationPolicy } from '../middleware/verificationPolicy.js';
 
 export function setWikiTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -27,13 +31,17 @@ async function handleSetWikiTool( uri: string ): Promise<CallToolResult> {
 		const { wikiKey } = parseWikiResourceUri( uri );
 
 		if ( !wikiService.get( wikiKey ) ) {
-			return {
-				content: [ {
-					type: 'text',
-					text: `mcp://wikis/${ wikiKey } not found in MCP resources.`
-				} as TextContent ],
-				isError: true
-			};
+			return classifiedErrorResult( `mcp://wikis/${ wikiKey } not found in MCP resources.`, {
+				code: 'not-found',
+				hint: 'List the MCP resources for the configured wikis, or add this one with add-wiki.'
+			} );
+		}
+
+		if ( !isWikiAllowed( wikiKey ) ) {
+			return classifiedErrorResult( `Access to mcp://wikis/${ wikiKey } is not allowed for this client.`, {
+				code: 'permission-denied',
+				hint: 'Use one of the wikis allowed for this client\'s API key.'
+			} );
 		}
 
 		wikiService.setCurrent( wikiKey );
@@ -41,10 +49,16 @@ async function handleSetWikiTool( uri: string ): Promise<CallToolResult> {
 
 		const newConfig = wikiService.getCurrent().config;
 		return {
-			content: [ {
-				type: 'text',
-				text: `Wiki set to ${ newConfig.sitename } (${ newConfig.server })`
-			} as TextContent ]
+			content: [
+				{
+					type: 'text',
+					text: `Wiki set to ${ newConfig.sitename } (${ newConfig.server })`
+				} as TextContent,
+				{
+					type: 'text',
+					text: describeVerificationPolicy( getVerificationPolicy() )
+				} as TextContent
+			]
 		};
 	} catch ( error ) {
 		if ( error instanceof InvalidWikiResourceUriError ) {
@@ -59,3 +73,15 @@ async function handleSetWikiTool( uri: string ): Promise<CallToolResult> {
 		throw error;
 	}
 }
+
+function describeVerificationPolicy( policy: VerificationPolicy ): string {
+	if ( !policy.enabled ) {
+		return 'Verification: disabled';
+	}
+	return [
+		'Verification: enabled',
+		`Wrapper template: ${ policy.wrapperTemplate } (by=${ policy.proposer })`,
+		`Templates with status: ${ policy.templatesWithStatus.join( ', ' ) || 'None' }`,
+		`Exempt namespaces: ${ policy.exemptNamespaces.join( ', ' ) || 'None' }`
+	].join( '\n' );
+}
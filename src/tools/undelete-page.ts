@@ -6,6 +6,9 @@ import type { ApiUndeleteResponse } from 'mwn';
 /* eslint-enable n/no-missing-import */
 import { getMwn } from '../common/mwn.js';
 import { formatEditComment } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
+import { pipeline } from '../middleware/index.js';
+import type { UndeleteContext } from '../middleware/types.js';
 
 export function undeletePageTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -22,28 +25,26 @@ export function undeletePageTool( server: McpServer ): RegisteredTool {
 		} as ToolAnnotations,
 		async (
 			{ title, comment }
-		) => handleUndeletePageTool( title, comment )
+		) => {
+			const context: UndeleteContext = {
+				tool: 'undelete-page',
+				title,
+				comment
+			};
+			return pipeline.wrapHandler( context, handleUndeletePageToolWithContext );
+		}
 	);
 }
 
-async function handleUndeletePageTool(
-	title: string,
-	comment?: string
+async function handleUndeletePageToolWithContext(
+	context: UndeleteContext
 ): Promise<CallToolResult> {
 	let data: ApiUndeleteResponse;
 	try {
 		const mwn = await getMwn();
-		data = await mwn.undelete( title, formatEditComment( 'undelete-page', comment ) );
+		data = await mwn.undelete( context.title, formatEditComment( 'undelete-page', context.comment ) );
 	} catch ( error ) {
-		return {
-			content: [
-				{
-					type: 'text',
-					text: `Undelete failed: ${ ( error as Error ).message }`
-				} as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Undelete failed', error );
 	}
 
 	return {
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiEditResponse } from 'mwn';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { formatEditComment, getPageUrl } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
+import { pipeline } from '../middleware/index.js';
+import type { UndoContext } from '../middleware/types.js';
+
+export function undoRevisionTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'undo-revision',
+		'Undoes one revision of a wiki page, or a range of consecutive revisions, keeping the changes made after them. Fails if later changes overlap with the ones undone. Use get-page-history to find revision IDs.',
+		{
+			title: z.string().describe( 'Wiki page title' ),
+			revisionId: z.number().int().positive().describe( 'ID of the revision to undo, or of the newest revision of the range to undo' ),
+			undoAfter: z.number().int().positive().optional().describe( 'ID of the revision before the range to undo: every revision after it, up to revisionId, is undone' ),
+			comment: z.string().optional().describe( 'Reason for undoing the revisions' )
+		},
+		{
+			title: 'Undo revision',
+			readOnlyHint: false,
+			destructiveHint: true
+		} as ToolAnnotations,
+		async (
+			{ title, revisionId, undoAfter, comment }
+		) => {
+			const context: UndoContext = {
+				tool: 'undo-revision',
+				title,
+				revisionId,
+				undoAfter,
+				comment
+			};
+			return pipeline.wrapHandler( context, handleUndoRevisionToolWithContext );
+		}
+	);
+}
+
+function getDefaultComment( context: UndoContext ): string {
+	return context.undoAfter === undefined ?
+		`Undo revision ${ context.revisionId }` :
+		`Undo revisions after ${ context.undoAfter } up to ${ context.revisionId }`;
+}
+
+async function handleUndoRevisionToolWithContext( context: UndoContext ): Promise<CallToolResult> {
+	let data: ApiEditResponse;
+	try {
+		const mwn = await getMwn();
+		const response = await mwn.request( {
+			action: 'edit',
+			title: context.title,
+			undo: context.revisionId,
+			...( context.undoAfter === undefined ? {} : { undoafter: context.undoAfter } ),
+			summary: formatEditComment( 'undo-revision', context.comment ?? getDefaultComment( context ) ),
+			nocreate: true,
+			token: mwn.csrfToken,
+			formatversion: '2'
+		} );
+		data = response.edit as ApiEditResponse;
+	} catch ( error ) {
+		return errorResult( 'Failed to undo revision', error );
+	}
+
+	return {
+		content: undoRevisionToolResult( data, context )
+	};
+}
+
+function undoRevisionToolResult( data: ApiEditResponse, context: UndoContext ): TextContent[] {
+	const undone = context.undoAfter === undefined ?
+		`revision ${ context.revisionId }` :
+		`revisions after ${ context.undoAfter } up to ${ context.revisionId }`;
+	if ( data.nochange ) {
+		return [ {
+			type: 'text',
+			text: `Undoing ${ undone } of ${ data.title } changes nothing: the changes were already undone. Nothing was saved.`
+		} ];
+	}
+	return [
+		{
+			type: 'text',
+			text: `Undid ${ undone }: ${ getPageUrl( data.title ) }`
+		},
+		{
+			type: 'text',
+			text: [
+				`Title: ${ data.title }`,
+				`Latest revision ID: ${ data.newrevid }`,
+				`Latest revision timestamp: ${ data.newtimestamp }`,
+				`Previous revision ID: ${ data.oldrevid }`
+			].join( '\n' )
+		}
+	];
+}
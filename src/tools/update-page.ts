@@ -3,7 +3,17 @@ import { z } from 'zod';
 import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 /* eslint-enable n/no-missing-import */
-import { makeRestPutRequest, getPageUrl, formatEditComment } from '../common/utils.js';
+import {
+	HttpError,
+	fetchRevisionSource,
+	formatEditComment,
+	getPageUrl,
+	makeRestGetRequest,
+	makeRestPutRequest
+} from '../common/utils.js';
+import { mergeTexts } from '../common/diff.js';
+import type { TextConflict } from '../common/diff.js';
+import { errorResult } from '../common/errors.js';
 import type { MwRestApiPageObject } from '../types/mwRestApi.js';
 import { pipeline } from '../middleware/index.js';
 import type { EditContext } from '../middleware/types.js';
@@ -11,7 +21,7 @@ import type { EditContext } from '../middleware/types.js';
 export function updatePageTool( server: McpServer ): RegisteredTool {
 	return server.tool(
 		'update-page',
-		'Updates a wiki page. Replaces the existing content of a page with the provided content',
+		'Updates a wiki page. Replaces the existing content of a page with the provided content. If the page was changed since latestId, the changes are merged automatically when they don\'t overlap; otherwise the conflicting parts are returned and nothing is saved.',
 		{
 			title: z.string().describe( 'Wiki page title' ),
 			source: z.string().describe( 'Page content in the same content model of the existing page' ),
@@ -38,21 +48,45 @@ export function updatePageTool( server: McpServer ): RegisteredTool {
 	);
 }
 
+/**
+ * How many times a merged edit is resubmitted when the page keeps changing.
+ */
+const MAX_MERGE_ATTEMPTS = 3;
+
+/**
+ * The REST API answers an edit based on an outdated revision that MediaWiki
+ * could not merge itself with 409 Conflict.
+ *
+ * @param {unknown} error Error thrown by the save
+ * @return {boolean}
+ */
+function isEditConflict( error: unknown ): boolean {
+	return error instanceof HttpError && error.status === 409;
+}
+
+async function savePage(
+	context: EditContext, source: string, latestId: number | undefined
+): Promise<MwRestApiPageObject> {
+	return makeRestPutRequest<MwRestApiPageObject>( `/v1/page/${ encodeURIComponent( context.title ) }`, {
+		source,
+		comment: formatEditComment( 'update-page', context.comment ),
+		latest: { id: latestId }
+	}, true );
+}
+
+function updateFailedResult( error: unknown ): CallToolResult {
+	return errorResult( 'Failed to update page', error );
+}
+
 async function handleUpdatePageToolWithContext( context: EditContext ): Promise<CallToolResult> {
 	let data: MwRestApiPageObject;
 	try {
-		data = await makeRestPutRequest<MwRestApiPageObject>( `/v1/page/${ encodeURIComponent( context.title ) }`, {
-			source: context.source,
-			comment: formatEditComment( 'update-page', context.comment ),
-			latest: { id: context.latestId }
-		}, true );
+		data = await savePage( context, context.source, context.latestId );
 	} catch ( error ) {
-		return {
-			content: [
-				{ type: 'text', text: `Failed to update page: ${ ( error as Error ).message }` } as TextContent
-			],
-			isError: true
-		};
+		if ( isEditConflict( error ) && context.latestId ) {
+			return resolveEditConflict( context, context.latestId );
+		}
+		return updateFailedResult( error );
 	}
 
 	return {
@@ -60,6 +94,104 @@ async function handleUpdatePageToolWithContext( context: EditContext ): Promise<
 	};
 }
 
+/**
+ * Merge the edit with the changes made since its base revision and save
+ * the result, or report the parts where both changed the same text.
+ *
+ * @param {EditContext} context Context of the edit
+ * @param {number} baseId Revision the edit is based on
+ * @return {Promise<CallToolResult>}
+ */
+async function resolveEditConflict(
+	context: EditContext, baseId: number
+): Promise<CallToolResult> {
+	const base = await fetchRevisionSource( baseId );
+	if ( base === null ) {
+		return updateFailedResult( new Error(
+			`Edit conflict: ${ context.title } was changed since revision ${ baseId }, which could not be fetched to merge the changes. Fetch the page again and resubmit.`
+		) );
+	}
+
+	for ( let attempt = 1; attempt <= MAX_MERGE_ATTEMPTS; attempt++ ) {
+		let current: MwRestApiPageObject;
+		try {
+			current = await makeRestGetRequest<MwRestApiPageObject>(
+				`/v1/page/${ encodeURIComponent( context.title ) }`, undefined, true
+			);
+		} catch ( error ) {
+			return updateFailedResult( error );
+		}
+
+		const merge = mergeTexts( base, current.source ?? '', context.source );
+		if ( !merge.clean ) {
+			console.error( `[update-page] ${ context.title }: edit conflict with revision ${ current.latest.id }, ${ merge.conflicts.length } conflicting hunks` );
+			return editConflictResult( context, baseId, current.latest.id, merge.conflicts );
+		}
+
+		try {
+			const data = await savePage( context, merge.text, current.latest.id );
+			console.error( `[update-page] ${ context.title }: merged with changes from revision ${ baseId } to ${ current.latest.id }` );
+			return {
+				content: [
+					...updatePageToolResult( data ),
+					{
+						type: 'text',
+						text: `The page was changed since revision ${ baseId }. Those changes did not overlap with this edit and were merged (up to revision ${ current.latest.id }).`
+					}
+				]
+			};
+		} catch ( error ) {
+			if ( !isEditConflict( error ) ) {
+				return updateFailedResult( error );
+			}
+			// Changed again while merging; merge against the newer revision
+		}
+	}
+
+	return updateFailedResult( new Error(
+		`Edit conflict: ${ context.title } kept changing while merging this edit. Fetch the page again and resubmit.`
+	) );
+}
+
+function editConflictResult(
+	context: EditContext, baseId: number, currentId: number, conflicts: TextConflict[]
+): CallToolResult {
+	const hunks = conflicts.map( ( conflict, index ) => [
+		`Conflict ${ index + 1 } of ${ conflicts.length }, at line ${ conflict.line } of revision ${ baseId }:`,
+		`Base (revision ${ baseId }):\n${ conflict.base }`,
+		`Current (revision ${ currentId }):\n${ conflict.ours }`,
+		`Proposed:\n${ conflict.theirs }`
+	].join( '\n\n' ) );
+
+	return {
+		content: [
+			{
+				type: 'text',
+				text: `Edit conflict: ${ context.title } was changed since revision ${ baseId } (now revision ${ currentId }), and the changes overlap with this edit in ${ conflicts.length } ${ conflicts.length === 1 ? 'place' : 'places' }. Nothing was saved. Changes that don't overlap can be merged automatically.`
+			} as TextContent,
+			...hunks.map( ( text ) => ( { type: 'text', text } as TextContent ) ),
+			{
+				type: 'text',
+				text: `To resolve, fetch revision ${ currentId } with get-page, apply the edit to it, and call update-page again with latestId=${ currentId }.`
+			} as TextContent
+		],
+		isError: true,
+		_meta: {
+			error: { code: 'edit-conflict' },
+			conflict: {
+				baseRevision: baseId,
+				currentRevision: currentId,
+				hunks: conflicts.map( ( conflict ) => ( {
+					line: conflict.line,
+					base: conflict.base,
+					current: conflict.ours,
+					proposed: conflict.theirs
+				} ) )
+			}
+		}
+	};
+}
+
 function updatePageToolResult( result: MwRestApiPageObject ): TextContent[] {
 	return [
 		{
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiEditResponse } from 'mwn';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { getPageUrl, formatEditComment } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
+import { pipeline } from '../middleware/index.js';
+import type { EditContext } from '../middleware/types.js';
+
+export function updateSectionTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'update-section',
+		'Updates one section of a wiki page, replacing its source (including its heading) with the provided content. Use get-section to get the current source and revision ID.',
+		{
+			title: z.string().describe( 'Wiki page title' ),
+			section: z.number().int().min( 0 ).describe( 'Section index from get-page-sections (0 for the lead)' ),
+			source: z.string().describe( 'New source of the section, including its heading line' ),
+			latestId: z.number().int().positive().describe( 'Revision ID used as the base for the new source' ),
+			comment: z.string().optional().describe( 'Summary of the edit' )
+		},
+		{
+			title: 'Update section',
+			readOnlyHint: false,
+			destructiveHint: true
+		} as ToolAnnotations,
+		async (
+			{ title, section, source, latestId, comment }
+		) => {
+			const context: EditContext = {
+				tool: 'update-section',
+				title,
+				section,
+				source,
+				comment,
+				latestId
+			};
+			return pipeline.wrapHandler( context, handleUpdateSectionToolWithContext );
+		}
+	);
+}
+
+async function handleUpdateSectionToolWithContext( context: EditContext ): Promise<CallToolResult> {
+	let data: ApiEditResponse;
+	try {
+		const mwn = await getMwn();
+		data = await mwn.save( context.title, context.source, formatEditComment( 'update-section', context.comment ), {
+			section: String( context.section ),
+			baserevid: context.latestId,
+			nocreate: true
+		} );
+	} catch ( error ) {
+		return errorResult( 'Failed to update section', error );
+	}
+
+	return {
+		content: sectionEditToolResult(
+			`Section ${ context.section } of ${ data.title } updated successfully: ${ getPageUrl( data.title ) }`,
+			data
+		)
+	};
+}
+
+/**
+ * Result of a section edit, shared with append-section.
+ *
+ * @param {string} message First line of the result
+ * @param {ApiEditResponse} data Response of the edit
+ * @return {TextContent[]}
+ */
+export function sectionEditToolResult( message: string, data: ApiEditResponse ): TextContent[] {
+	return [
+		{
+			type: 'text',
+			text: data.nochange ? `${ data.title } is unchanged: the content was the same` : message
+		},
+		{
+			type: 'text',
+			text: [
+				`Page ID: ${ data.pageid }`,
+				`Title: ${ data.title }`,
+				`Latest revision ID: ${ data.newrevid ?? data.oldrevid }`,
+				`Latest revision timestamp: ${ data.newtimestamp ?? 'unchanged' }`,
+				`Content model: ${ data.contentmodel }`
+			].join( '\n' )
+		}
+	];
+}
@@ -7,6 +7,9 @@ import type { ApiUploadParams } from 'types-mediawiki-api';
 import type { ApiUploadResponse } from 'mwn';
 import { getMwn } from '../common/mwn.js';
 import { formatEditComment } from '../common/utils.js';
+import { classifiedErrorResult, errorResult } from '../common/errors.js';
+import { pipeline } from '../middleware/index.js';
+import type { UploadFileFromUrlContext } from '../middleware/types.js';
 
 export function uploadFileFromUrlTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -25,44 +28,43 @@ export function uploadFileFromUrlTool( server: McpServer ): RegisteredTool {
 		} as ToolAnnotations,
 		async (
 			{ url, title, text, comment }
-		) => handleUploadFileFromUrlTool( url, title, text, comment )
+		) => {
+			const context: UploadFileFromUrlContext = {
+				tool: 'upload-file-from-url',
+				title,
+				url,
+				text,
+				comment
+			};
+			return pipeline.wrapHandler( context, handleUploadFileFromUrlToolWithContext );
+		}
 	);
 }
 
-async function handleUploadFileFromUrlTool(
-	url: string, title: string, text: string, comment?: string
+async function handleUploadFileFromUrlToolWithContext(
+	context: UploadFileFromUrlContext
 ): Promise< CallToolResult > {
 
 	let data: ApiUploadResponse;
 	try {
 		const mwn = await getMwn();
-		data = await mwn.uploadFromUrl( url, title, text, getApiUploadParams( comment ) );
+		data = await mwn.uploadFromUrl(
+			context.url, context.title, context.text, getApiUploadParams( context.comment )
+		);
 	} catch ( error ) {
 		const errorMessage = ( error as Error ).message;
 
 		// Prevent the LLM from attempting to find an existing image on the wiki
 		// after failing to upload by URL.
 		if ( errorMessage.includes( 'copyuploaddisabled' ) ) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: 'Upload failed: Upload by URL is disabled for this wiki. Please download the image from the URL to the local disk first, then use the upload-file tool to upload it from the local file path.'
-					} as TextContent
-				],
-				isError: true
-			};
+			return classifiedErrorResult( 'Upload failed: Upload by URL is disabled for this wiki.', {
+				code: 'permission-denied',
+				hint: 'Please download the image from the URL to the local disk first, then use the upload-file tool to upload it from the local file path.',
+				wikiCode: 'copyuploaddisabled'
+			} );
 		}
 
-		return {
-			content: [
-				{
-					type: 'text',
-					text: `Upload failed: ${ ( error as Error ).message }`
-				} as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Upload failed', error );
 	}
 
 	return {
@@ -7,6 +7,9 @@ import type { ApiUploadParams } from 'types-mediawiki-api';
 import type { ApiUploadResponse } from 'mwn';
 import { getMwn } from '../common/mwn.js';
 import { formatEditComment } from '../common/utils.js';
+import { errorResult } from '../common/errors.js';
+import { pipeline } from '../middleware/index.js';
+import type { UploadFileContext } from '../middleware/types.js';
 
 export function uploadFileTool( server: McpServer ): RegisteredTool {
 	return server.tool(
@@ -25,28 +28,31 @@ export function uploadFileTool( server: McpServer ): RegisteredTool {
 		} as ToolAnnotations,
 		async (
 			{ filepath, title, text, comment }
-		) => handleUploadFileTool( filepath, title, text, comment )
+		) => {
+			const context: UploadFileContext = {
+				tool: 'upload-file',
+				title,
+				filepath,
+				text,
+				comment
+			};
+			return pipeline.wrapHandler( context, handleUploadFileToolWithContext );
+		}
 	);
 }
 
-async function handleUploadFileTool(
-	filepath: string, title: string, text: string, comment?: string
+async function handleUploadFileToolWithContext(
+	context: UploadFileContext
 ): Promise< CallToolResult > {
 
 	let data: ApiUploadResponse;
 	try {
 		const mwn = await getMwn();
-		data = await mwn.upload( filepath, title, text, getApiUploadParams( comment ) );
+		data = await mwn.upload(
+			context.filepath, context.title, context.text, getApiUploadParams( context.comment )
+		);
 	} catch ( error ) {
-		return {
-			content: [
-				{
-					type: 'text',
-					text: `Upload failed: ${ ( error as Error ).message }`
-				} as TextContent
-			],
-			isError: true
-		};
+		return errorResult( 'Upload failed', error );
 	}
 
 	return {
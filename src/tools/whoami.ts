@@ -0,0 +1,112 @@
+/* eslint-disable n/no-missing-import */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, TextContent, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+/* eslint-enable n/no-missing-import */
+import { getMwn } from '../common/mwn.js';
+import { wikiService } from '../common/wikiService.js';
+import { getSession } from '../common/session.js';
+import { getAllowedTools } from '../common/profiles.js';
+import { errorResult } from '../common/errors.js';
+
+interface UserInfo {
+	id: number;
+	name: string;
+	anon?: boolean;
+	groups?: string[];
+	rights?: string[];
+	blockid?: number;
+	blockreason?: string;
+	blockexpiry?: string;
+}
+
+/**
+ * MediaWiki user rights each writing tool needs.
+ */
+const requiredRights: Record<string, string> = {
+	'create-page': 'createpage',
+	'update-page': 'edit',
+	'update-section': 'edit',
+	'append-section': 'edit',
+	'approve-proposal': 'edit',
+	'reject-proposal': 'edit',
+	'move-page': 'move',
+	'apply-edits': 'edit',
+	'revert-page': 'edit',
+	'undo-revision': 'edit',
+	'rollback-user-edits': 'rollback',
+	'delete-page': 'delete',
+	'undelete-page': 'undelete',
+	'upload-file': 'upload',
+	'upload-file-from-url': 'upload_by_url'
+};
+
+export function whoamiTool( server: McpServer ): RegisteredTool {
+	return server.tool(
+		'whoami',
+		'Reports the permission profile of this session and the current wiki, the tools it allows, and the MediaWiki account the server acts as on the wiki, with its groups and rights.',
+		{},
+		{
+			title: 'Who am I',
+			readOnlyHint: true,
+			destructiveHint: false
+		} as ToolAnnotations,
+		async () => handleWhoamiTool()
+	);
+}
+
+async function handleWhoamiTool(): Promise<CallToolResult> {
+	try {
+		const { key, config } = wikiService.getCurrent();
+		const mwn = await getMwn();
+		const userInfo = await mwn.userinfo( { uiprop: [ 'groups', 'rights', 'blockinfo' ] } ) as UserInfo;
+
+		return {
+			content: whoamiToolResult( key, config.sitename, config.profile, userInfo )
+		};
+	} catch ( error ) {
+		return errorResult( 'Failed to get user info', error );
+	}
+}
+
+function whoamiToolResult(
+	wikiKey: string, sitename: string, wikiProfile: string | undefined, userInfo: UserInfo
+): TextContent[] {
+	const session = getSession();
+	const allowedTools = getAllowedTools( wikiKey );
+	const rights = userInfo.rights ?? [];
+	const missingRights = ( allowedTools ?? Object.keys( requiredRights ) )
+		.filter( ( tool ) => requiredRights[ tool ] && !rights.includes( requiredRights[ tool ] ) )
+		.map( ( tool ) => `${ tool } (${ requiredRights[ tool ] })` );
+
+	return [
+		{
+			type: 'text',
+			text: [
+				`Wiki: ${ sitename } (${ wikiKey })`,
+				...( session.client ? [ `Client: ${ session.client.name }` ] : [] ),
+				`Session profile: ${ session.profile ?? 'None' }`,
+				`Wiki profile: ${ wikiProfile ?? 'None' }`,
+				`Allowed tools: ${ allowedTools ? allowedTools.join( ', ' ) || 'None' : 'All' }`
+			].join( '\n' )
+		},
+		{
+			type: 'text',
+			text: [
+				userInfo.anon ?
+					`MediaWiki user: not logged in (${ userInfo.name })` :
+					`MediaWiki user: ${ userInfo.name } (ID ${ userInfo.id })`,
+				`Groups: ${ userInfo.groups?.join( ', ' ) || 'None' }`,
+				`Rights: ${ rights.join( ', ' ) || 'None' }`,
+				...( userInfo.blockid === undefined ? [] : [
+					`Blocked: ${ userInfo.blockreason || 'no reason given' } (expires ${ userInfo.blockexpiry ?? 'never' })`
+				] )
+			].join( '\n' )
+		},
+		{
+			type: 'text',
+			text: missingRights.length > 0 ?
+				`Allowed tools the account lacks rights for: ${ missingRights.join( ', ' ) }` :
+				'The account has the rights for every allowed tool'
+		}
+	];
+}
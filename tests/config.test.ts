@@ -0,0 +1,72 @@
+import { after, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+const directory = fs.mkdtempSync( path.join( os.tmpdir(), 'mcp-config-' ) );
+process.env.CONFIG = path.join( directory, 'config.json' );
+fs.writeFileSync( process.env.CONFIG, JSON.stringify( {
+	defaultWiki: 'example.org',
+	persist: true,
+	wikis: {
+		'example.org': {
+			sitename: 'Example',
+			server: 'https://example.org',
+			articlepath: '/wiki',
+			scriptpath: '/w'
+		}
+	}
+} ) );
+
+// The config is read when the modules are first imported
+const { ConfigError, parseConfig, readConfigFile } = await import( '../src/common/config.js' );
+const { wikiService } = await import( '../src/common/wikiService.js' );
+
+after( () => fs.rmSync( directory, { recursive: true, force: true } ) );
+
+function withServer( server: string ): string {
+	return JSON.stringify( {
+		defaultWiki: 'example.org',
+		wikis: {
+			'example.org': { sitename: 'Example', server, articlepath: '/wiki', scriptpath: '/w' }
+		}
+	} );
+}
+
+describe( 'parseConfig', () => {
+	it( 'accepts http(s) and protocol-relative servers', () => {
+		for ( const server of [ 'https://example.org', 'http://localhost:8080', '//example.org' ] ) {
+			assert.equal( parseConfig( withServer( server ) ).wikis[ 'example.org' ].server, server );
+		}
+	} );
+
+	it( 'rejects other servers', () => {
+		for ( const server of [ 'example.org', 'ftp://example.org', 'https://example.org/' ] ) {
+			assert.throws( () => parseConfig( withServer( server ) ), ConfigError );
+		}
+	} );
+} );
+
+describe( 'wikiService with persist', () => {
+	it( 'writes a config file that still validates after a wiki is added', () => {
+		// As MediaWiki's siteinfo reports the server of Wikimedia wikis
+		wikiService.add( 'en.wikipedia.org', {
+			sitename: 'Wikipedia',
+			server: '//en.wikipedia.org',
+			articlepath: '/wiki',
+			scriptpath: '/w',
+			token: null,
+			private: false
+		} );
+
+		const persisted = parseConfig( readConfigFile() );
+		assert.equal( persisted.wikis[ 'en.wikipedia.org' ].server, '//en.wikipedia.org' );
+		assert.equal( persisted.defaultWiki, 'example.org' );
+	} );
+
+	it( 'refuses to remove the default wiki', () => {
+		assert.throws( () => wikiService.remove( 'example.org' ), /default wiki/ );
+		assert.ok( parseConfig( readConfigFile() ).wikis[ 'example.org' ] );
+	} );
+} );
@@ -0,0 +1,57 @@
+import { after, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+const directory = fs.mkdtempSync( path.join( os.tmpdir(), 'mcp-profiles-' ) );
+process.env.CONFIG = path.join( directory, 'config.json' );
+fs.writeFileSync( process.env.CONFIG, JSON.stringify( {
+	defaultWiki: 'example.org',
+	wikis: {
+		'example.org': {
+			sitename: 'Example',
+			server: 'https://example.org',
+			articlepath: '/wiki',
+			scriptpath: '/w'
+		},
+		'readonly.example.org': {
+			sitename: 'Read-only example',
+			server: 'https://readonly.example.org',
+			articlepath: '/wiki',
+			scriptpath: '/w',
+			profile: 'readonly'
+		}
+	}
+} ) );
+
+// The config is read when the modules are first imported
+const { getAllowedTools, isToolAllowedOnWiki } = await import( '../src/common/profiles.js' );
+const { createSessionState, runInSession } = await import( '../src/common/session.js' );
+
+after( () => fs.rmSync( directory, { recursive: true, force: true } ) );
+
+describe( 'isToolAllowedOnWiki', () => {
+	it( 'allows every tool when no profile or key limits them', () => {
+		runInSession( createSessionState(), () => {
+			assert.equal( getAllowedTools( 'example.org' ), undefined );
+			assert.ok( isToolAllowedOnWiki( 'delete-page', 'example.org' ) );
+		} );
+	} );
+
+	it( 'refuses tools missing from the API key, even when the profile allows them', () => {
+		const client = { name: 'batch-bot', tools: [ 'get-page', 'apply-edits' ] };
+		runInSession( createSessionState( client, 'admin' ), () => {
+			assert.ok( isToolAllowedOnWiki( 'apply-edits', 'example.org' ) );
+			assert.ok( !isToolAllowedOnWiki( 'delete-page', 'example.org' ) );
+			assert.deepEqual( getAllowedTools( 'example.org' ), [ 'get-page', 'apply-edits' ] );
+		} );
+	} );
+
+	it( 'combines the API key with the wiki\'s profile', () => {
+		const client = { name: 'batch-bot', tools: [ 'get-page', 'apply-edits' ] };
+		runInSession( createSessionState( client ), () => {
+			assert.deepEqual( getAllowedTools( 'readonly.example.org' ), [ 'get-page' ] );
+		} );
+	} );
+} );
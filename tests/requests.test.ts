@@ -0,0 +1,356 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+	DEFAULT_REQUEST_SETTINGS,
+	getRetryDelay,
+	isRetriable,
+	parseRetryAfter,
+	sendWithRetries
+} from '../src/common/requests.js';
+import type { RequestSettings } from '../src/common/requests.js';
+import { makeApiRequest } from '../src/common/utils.js';
+
+interface MockResponse {
+	status: number;
+	headers?: Record<string, string>;
+	body?: unknown;
+}
+
+interface ReceivedRequest {
+	method: string;
+	url: URL;
+	time: number;
+}
+
+/**
+ * Local wiki stand-in. Each path answers with its scripted responses in
+ * turn, repeating the last one, after `delay` milliseconds.
+ */
+class MockServer {
+	public readonly requests: ReceivedRequest[] = [];
+
+	public maxInFlight = 0;
+
+	private inFlight = 0;
+
+	private readonly scripts = new Map<string, MockResponse[]>();
+
+	private readonly server = http.createServer( ( req, res ) => this.handle( req, res ) );
+
+	public delay = 0;
+
+	public async listen(): Promise<void> {
+		await new Promise<void>( ( resolve ) => {
+			this.server.listen( 0, '127.0.0.1', resolve );
+		} );
+	}
+
+	public async close(): Promise<void> {
+		this.server.closeAllConnections();
+		await new Promise( ( resolve ) => {
+			this.server.close( resolve );
+		} );
+	}
+
+	public get origin(): string {
+		return `http://127.0.0.1:${ ( this.server.address() as AddressInfo ).port }`;
+	}
+
+	public script( path: string, responses: MockResponse[] ): string {
+		this.scripts.set( path, [ ...responses ] );
+		return `${ this.origin }${ path }`;
+	}
+
+	public received( path: string ): ReceivedRequest[] {
+		return this.requests.filter( ( request ) => request.url.pathname === path );
+	}
+
+	private handle( req: http.IncomingMessage, res: http.ServerResponse ): void {
+		const url = new URL( req.url ?? '/', this.origin );
+		this.requests.push( { method: req.method ?? 'GET', url, time: Date.now() } );
+		this.inFlight++;
+		this.maxInFlight = Math.max( this.maxInFlight, this.inFlight );
+
+		const responses = this.scripts.get( url.pathname ) ?? [ { status: 404 } ];
+		const response = responses.length > 1 ? responses.shift() as MockResponse : responses[ 0 ];
+		setTimeout( () => {
+			this.inFlight--;
+			res.writeHead( response.status, {
+				'Content-Type': 'application/json',
+				...response.headers
+			} );
+			res.end( JSON.stringify( response.body ?? {} ) );
+		}, this.delay );
+	}
+}
+
+const FAST_SETTINGS: RequestSettings = {
+	...DEFAULT_REQUEST_SETTINGS,
+	retryDelay: 20,
+	maxRetryDelay: 5000
+};
+
+let keys = 0;
+
+/**
+ * Fetch through sendWithRetries, retrying the way the request layer does for
+ * REST requests. Each call gets its own key, so concurrency limits don't carry
+ * over between tests unless a key is given.
+ */
+async function fetchWithRetries(
+	url: string,
+	options: { method?: string; settings?: RequestSettings; key?: string } = {}
+): Promise<Response> {
+	const method = options.method ?? 'GET';
+	return sendWithRetries(
+		options.key ?? `test-${ keys++ }`,
+		options.settings ?? FAST_SETTINGS,
+		() => fetch( url, { method } ),
+		( attempt ) => {
+			if ( 'error' in attempt ) {
+				return isRetriable( method, { error: attempt.error } ) ?
+					{ reason: ( attempt.error as Error ).message } :
+					undefined;
+			}
+			const { status, headers } = attempt.result;
+			const retryAfter = headers.get( 'Retry-After' );
+			if ( attempt.result.ok || !isRetriable( method, { status, retryAfter } ) ) {
+				return undefined;
+			}
+			attempt.result.arrayBuffer().catch( () => undefined );
+			return { reason: `HTTP ${ status }`, retryAfter };
+		}
+	);
+}
+
+function gaps( requests: ReceivedRequest[] ): number[] {
+	return requests.slice( 1 ).map( ( request, i ) => request.time - requests[ i ].time );
+}
+
+describe( 'parseRetryAfter', () => {
+	it( 'reads seconds', () => {
+		assert.equal( parseRetryAfter( '3' ), 3000 );
+		assert.equal( parseRetryAfter( ' 0 ' ), 0 );
+	} );
+
+	it( 'reads an HTTP date', () => {
+		const wait = parseRetryAfter( new Date( Date.now() + 10000 ).toUTCString() ) as number;
+		assert.ok( wait > 8000 && wait <= 10000, `waits ${ wait }ms` );
+	} );
+
+	it( 'does not wait for a date in the past', () => {
+		assert.equal( parseRetryAfter( new Date( Date.now() - 10000 ).toUTCString() ), 0 );
+	} );
+
+	it( 'ignores a missing or unreadable value', () => {
+		assert.equal( parseRetryAfter( null ), undefined );
+		assert.equal( parseRetryAfter( 'soon' ), undefined );
+	} );
+} );
+
+describe( 'getRetryDelay', () => {
+	it( 'backs off exponentially, with jitter', () => {
+		for ( let retry = 0; retry < 4; retry++ ) {
+			const backoff = FAST_SETTINGS.retryDelay * 2 ** retry;
+			const delay = getRetryDelay( retry, null, FAST_SETTINGS ) as number;
+			assert.ok(
+				delay >= backoff / 2 && delay <= backoff,
+				`retry ${ retry } waits ${ delay }ms`
+			);
+		}
+	} );
+
+	it( 'never backs off for longer than maxRetryDelay', () => {
+		const delay = getRetryDelay( 20, null, FAST_SETTINGS ) as number;
+		assert.ok( delay <= FAST_SETTINGS.maxRetryDelay );
+	} );
+
+	it( 'waits for as long as Retry-After asks', () => {
+		assert.equal( getRetryDelay( 0, '2', FAST_SETTINGS ), 2000 );
+	} );
+
+	it( 'gives up when Retry-After asks for more than maxRetryDelay', () => {
+		assert.equal( getRetryDelay( 0, '60', FAST_SETTINGS ), undefined );
+	} );
+} );
+
+describe( 'sendWithRetries', () => {
+	const server = new MockServer();
+	before( () => server.listen() );
+	after( () => server.close() );
+
+	it( 'retries server errors with a growing backoff', async () => {
+		const url = server.script( '/backoff', [
+			{ status: 503 },
+			{ status: 502 },
+			{ status: 504 },
+			{ status: 200 }
+		] );
+		const response = await fetchWithRetries( url );
+		assert.equal( response.status, 200 );
+
+		const received = server.received( '/backoff' );
+		assert.equal( received.length, 4 );
+		gaps( received ).forEach( ( gap, retry ) => {
+			const backoff = FAST_SETTINGS.retryDelay * 2 ** retry;
+			assert.ok( gap >= backoff / 2 - 2, `retry ${ retry + 1 } came after ${ gap }ms` );
+		} );
+	} );
+
+	it( 'stops after maxRetries and returns the last response', async () => {
+		const url = server.script( '/always-failing', [ { status: 502 } ] );
+		const response = await fetchWithRetries( url );
+		assert.equal( response.status, 502 );
+		assert.equal( server.received( '/always-failing' ).length, FAST_SETTINGS.maxRetries + 1 );
+	} );
+
+	it( 'does not retry client errors', async () => {
+		const url = server.script( '/not-found', [ { status: 404 } ] );
+		const response = await fetchWithRetries( url );
+		assert.equal( response.status, 404 );
+		assert.equal( server.received( '/not-found' ).length, 1 );
+	} );
+
+	it( 'waits the seconds given by Retry-After on 429', async () => {
+		const url = server.script( '/throttled', [
+			{ status: 429, headers: { 'Retry-After': '1' } },
+			{ status: 200 }
+		] );
+		const response = await fetchWithRetries( url );
+		assert.equal( response.status, 200 );
+		const [ gap ] = gaps( server.received( '/throttled' ) );
+		assert.ok( gap >= 990, `retried after ${ gap }ms` );
+	} );
+
+	it( 'waits until the date given by Retry-After', async () => {
+		// HTTP dates have a resolution of a second, so this is one to two seconds away
+		const retryAt = new Date( Date.now() + 2000 ).toUTCString();
+		const url = server.script( '/unavailable', [
+			{ status: 503, headers: { 'Retry-After': retryAt } },
+			{ status: 200 }
+		] );
+		const response = await fetchWithRetries( url );
+		assert.equal( response.status, 200 );
+		const received = server.received( '/unavailable' );
+		assert.ok( received[ 1 ].time >= Date.parse( retryAt ) - 10, 'retried before the date' );
+	} );
+
+	it( 'does not retry when Retry-After asks for more than maxRetryDelay', async () => {
+		const url = server.script( '/long-wait', [
+			{ status: 429, headers: { 'Retry-After': '3600' } },
+			{ status: 200 }
+		] );
+		const response = await fetchWithRetries( url );
+		assert.equal( response.status, 429 );
+		assert.equal( server.received( '/long-wait' ).length, 1 );
+	} );
+
+	it( 'does not retry a POST that may have gone through', async () => {
+		const url = server.script( '/post-failing', [
+			{ status: 502 },
+			{ status: 503 },
+			{ status: 200 }
+		] );
+		const response = await fetchWithRetries( url, { method: 'POST' } );
+		assert.equal( response.status, 502 );
+		assert.equal( server.received( '/post-failing' ).length, 1 );
+	} );
+
+	it( 'retries a POST the wiki turned away', async () => {
+		const url = server.script( '/post-throttled', [
+			{ status: 429 },
+			{ status: 503, headers: { 'Retry-After': '0' } },
+			{ status: 200 }
+		] );
+		const response = await fetchWithRetries( url, { method: 'POST' } );
+		assert.equal( response.status, 200 );
+		assert.equal( server.received( '/post-throttled' ).length, 3 );
+	} );
+
+	it( 'retries a GET that could not connect, but not a POST', async () => {
+		const closed = new MockServer();
+		await closed.listen();
+		const url = `${ closed.origin }/gone`;
+		await closed.close();
+
+		const attempts = { GET: 0, POST: 0 };
+		for ( const method of [ 'GET', 'POST' ] as const ) {
+			await assert.rejects( sendWithRetries(
+				`test-${ keys++ }`,
+				FAST_SETTINGS,
+				() => {
+					attempts[ method ]++;
+					return fetch( url, { method } );
+				},
+				( attempt ) => {
+					const retriable = 'error' in attempt && isRetriable( method, { error: attempt.error } );
+					return retriable ? { reason: 'network' } : undefined;
+				}
+			) );
+		}
+		assert.deepEqual( attempts, { GET: FAST_SETTINGS.maxRetries + 1, POST: 1 } );
+	} );
+
+	it( 'sends at most maxConcurrent requests at once to a wiki', async () => {
+		const url = server.script( '/slow', [ { status: 200 } ] );
+		server.delay = 30;
+		server.maxInFlight = 0;
+		try {
+			const settings = { ...FAST_SETTINGS, maxConcurrent: 3 };
+			const responses = await Promise.all( Array.from( { length: 10 }, () => fetchWithRetries(
+				url, { settings, key: 'limited' }
+			) ) );
+			assert.ok( responses.every( ( response ) => response.ok ) );
+			assert.equal( server.maxInFlight, 3 );
+		} finally {
+			server.delay = 0;
+		}
+	} );
+
+	it( 'limits each wiki separately', async () => {
+		const url = server.script( '/slow-shared', [ { status: 200 } ] );
+		server.delay = 30;
+		server.maxInFlight = 0;
+		try {
+			const settings = { ...FAST_SETTINGS, maxConcurrent: 1 };
+			await Promise.all( [ 'wiki-a', 'wiki-b' ].flatMap( ( key ) => Array.from(
+				{ length: 3 }, () => fetchWithRetries( url, { settings, key } )
+			) ) );
+			assert.equal( server.maxInFlight, 2 );
+		} finally {
+			server.delay = 0;
+		}
+	} );
+} );
+
+describe( 'Action API requests', () => {
+	const server = new MockServer();
+	before( () => server.listen() );
+	after( () => server.close() );
+
+	it( 'asks the wiki to turn requests away while it lags', async () => {
+		const url = server.script( '/w/api.php', [ { status: 200, body: { query: {} } } ] );
+		await makeApiRequest( url, { action: 'query' } );
+		const [ request ] = server.received( '/w/api.php' );
+		assert.equal(
+			request.url.searchParams.get( 'maxlag' ),
+			String( DEFAULT_REQUEST_SETTINGS.maxlag )
+		);
+	} );
+
+	it( 'retries when the wiki is lagged', async () => {
+		const url = server.script( '/lagged/api.php', [
+			{
+				status: 200,
+				headers: { 'MediaWiki-API-Error': 'maxlag', 'Retry-After': '0' },
+				body: { error: { code: 'maxlag', info: 'Waiting for a database server' } }
+			},
+			{ status: 200, body: { query: { ok: true } } }
+		] );
+		const data = await makeApiRequest<{ query: { ok: boolean } }>( url, { action: 'query' } );
+		assert.deepEqual( data, { query: { ok: true } } );
+		assert.equal( server.received( '/lagged/api.php' ).length, 2 );
+	} );
+} );
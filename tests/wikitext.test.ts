@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+	escapeTopLevelPipes,
+	parseBlocks,
+	parseTemplate,
+	splitSentences
+} from '../src/common/wikitext.js';
+
+const fixtures = path.join( path.dirname( fileURLToPath( import.meta.url ) ), 'fixtures', 'wikitext' );
+
+function readFixture( name: string ): string {
+	return fs.readFileSync( path.join( fixtures, name ), 'utf8' );
+}
+
+function readJsonFixture<T>( name: string ): T {
+	return JSON.parse( readFixture( name ) ) as T;
+}
+
+const pages = fs.readdirSync( fixtures )
+	.filter( ( file ) => file.endsWith( '.wiki' ) )
+	.map( ( file ) => path.basename( file, '.wiki' ) );
+
+describe( 'parseBlocks', () => {
+	for ( const page of pages ) {
+		describe( page, () => {
+			const source = readFixture( `${ page }.wiki` );
+			const blocks = parseBlocks( source );
+
+			it( 'gives back the source when the blocks are joined', () => {
+				assert.equal( blocks.map( ( block ) => block.text ).join( '\n' ), source );
+			} );
+
+			it( 'records where each block starts and ends', () => {
+				for ( const block of blocks ) {
+					assert.equal( source.slice( block.start, block.end ), block.text );
+				}
+			} );
+
+			it( 'classifies the blocks', () => {
+				const expected = readJsonFixture<string[]>( `${ page }.blocks.json` );
+				const actual = blocks.map( ( block ) => (
+					block.type === 'template' || block.type === 'tag' ? `${ block.type }:${ block.name }` : block.type
+				) );
+				assert.deepEqual( actual, expected );
+			} );
+
+			it( 'splits paragraphs into sentences without losing text', () => {
+				for ( const block of blocks.filter( ( { type } ) => type === 'paragraph' ) ) {
+					assert.equal( splitSentences( block.text ).join( '' ), block.text );
+				}
+			} );
+		} );
+	}
+
+	it( 'never ends a sentence inside a ref, template or comment', () => {
+		const sentences = splitSentences(
+			'Sold out.<ref>Tickets. Gone.</ref> It rained {{note|Heavy. Rain.}} all day. <!-- No. --> The end.'
+		);
+		assert.deepEqual( sentences, [
+			'Sold out.<ref>Tickets. Gone.</ref> It rained {{note|Heavy. Rain.}} all day.',
+			' <!-- No. --> The end.'
+		] );
+	} );
+} );
+
+describe( 'escapeTopLevelPipes', () => {
+	const cases = readJsonFixture<{ input: string; expected: string }[]>( 'escape-pipes.json' );
+	for ( const { input, expected } of cases ) {
+		it( `escapes ${ JSON.stringify( input ) }`, () => {
+			assert.equal( escapeTopLevelPipes( input ), expected );
+		} );
+	}
+} );
+
+describe( 'parseTemplate', () => {
+	const cases = readJsonFixture<{ input: string; name: string; params: [ string, string ][] }[]>(
+		'template-params.json'
+	);
+	for ( const { input, name, params } of cases ) {
+		it( `parses ${ JSON.stringify( input ) }`, () => {
+			const template = parseTemplate( input );
+			assert.equal( template.name, name );
+			assert.deepEqual( template.params.map( ( param ) => [ param.name, param.value.trim() ] ), params );
+		} );
+	}
+} );